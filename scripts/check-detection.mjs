@@ -0,0 +1,30 @@
+// Regression checks for prompt detection that must hold regardless of scan order.
+//
+//   npm run check:detection
+//
+// Loads the TypeScript modules through Vite's SSR loader, so no extra tooling is needed.
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const server = await createServer({ logLevel: 'silent', server: { middlewareMode: true }, appType: 'custom' });
+
+try {
+  const { detectCast, findCastOccurrences, DEFAULT_CAST } = await server.ssrLoadModule('/src/castRegistry.ts');
+  const { detectOutfits, DEFAULT_OUTFITS } = await server.ssrLoadModule('/src/outfitCatalog.ts');
+
+  const long = 'A long establishing shot of the city at dusk, and much later Raka walks in wearing casual clothes.';
+  const short = 'Raka in a formal suit.';
+
+  // A previous scan must not leave matcher state behind
+  detectCast(long, DEFAULT_CAST);
+  detectOutfits(long, DEFAULT_CAST, DEFAULT_OUTFITS);
+  assert.equal(findCastOccurrences(short, DEFAULT_CAST).length, 1, 'findCastOccurrences after a longer prompt');
+
+  // Same prompt through detectCast and then detectOutfits, as detectCharactersFromPrompt does
+  assert.deepEqual(detectCast(short, DEFAULT_CAST).map((m) => m.member.id), ['raka']);
+  assert.deepEqual(detectOutfits(short, DEFAULT_CAST, DEFAULT_OUTFITS), { raka: 'formal' });
+
+  console.log('detection checks passed');
+} finally {
+  await server.close();
+}
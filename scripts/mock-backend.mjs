@@ -0,0 +1,97 @@
+// Offline stand-in for the Python generation server.
+//
+//   npm run mock:backend
+//
+// Env: PORT (default 5000), MOCK_DELAY_MS (default 1500),
+//      MOCK_FAIL_RATE (0..1, default 0) to exercise the error UI.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 5000);
+const DELAY_MS = Number(process.env.MOCK_DELAY_MS || 1500);
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE || 0);
+
+const escapeXml = (text) => String(text).replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// Renders a placeholder card so each regeneration is visibly different.
+const renderPlaceholder = ({ name, prompt, setting, characters, rejection }, seed) => {
+  const hue = seed % 360;
+  const cast = (characters || []).map((c) => `${c.name} (${c.outfit})`).join(', ') || 'no characters';
+  const fix = rejection ? [...(rejection.reasons || []), rejection.note].filter(Boolean).join(' · ') : '';
+  const lines = String(prompt || '').match(/.{1,60}(\s|$)/g) || [];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hue},45%,22%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},45%,12%)"/>
+  </linearGradient></defs>
+  <rect width="1280" height="720" fill="url(#g)"/>
+  <text x="60" y="90" fill="#fff" font-family="monospace" font-size="36">${escapeXml(name || 'untitled')}</text>
+  <text x="60" y="140" fill="#a5b4fc" font-family="monospace" font-size="22">setting: ${escapeXml(setting)} · seed: ${seed}</text>
+  <text x="60" y="180" fill="#a5b4fc" font-family="monospace" font-size="22">cast: ${escapeXml(cast)}</text>
+  ${fix ? `<text x="60" y="220" fill="#fca5a5" font-family="monospace" font-size="22">fix: ${escapeXml(fix)}</text>` : ''}
+  ${lines.slice(0, 12).map((l, i) => `<text x="60" y="${260 + i * 32}" fill="#e2e8f0" font-family="monospace" font-size="22">${escapeXml(l.trim())}</text>`).join('\n  ')}
+</svg>`;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    try { resolve(raw ? JSON.parse(raw) : {}); } catch (e) { reject(e); }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    return send(res, 200, {
+      status: FAIL_RATE >= 0.5 ? 'degraded' : 'ok',
+      version: '0.0.0-mock',
+      models: ['mock-sdxl'],
+      workflows: ['cg_regenerate', 'background_regenerate']
+    });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/regenerate') {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: { code: 'invalid_json', message: 'Request body is not valid JSON.' } });
+    }
+    if (!body.prompt) {
+      return send(res, 422, { error: { code: 'missing_prompt', message: 'A prompt is required.', details: 'Field "prompt" was empty.' } });
+    }
+
+    await new Promise((r) => setTimeout(r, DELAY_MS));
+    if (Math.random() < FAIL_RATE) {
+      return send(res, 503, { error: { code: 'gpu_busy', message: 'All workers are busy.', details: 'Simulated failure (MOCK_FAIL_RATE).' } });
+    }
+
+    const seed = Math.floor(Math.random() * 1_000_000);
+    const svg = renderPlaceholder(body, seed);
+    console.log(`[regenerate] ${body.name || '?'} seed=${seed}`);
+    return send(res, 200, {
+      image_base64: Buffer.from(svg).toString('base64'),
+      mime_type: 'image/svg+xml',
+      seed,
+      model: 'mock-sdxl'
+    });
+  }
+
+  send(res, 404, { error: { code: 'not_found', message: `No route for ${req.method} ${url.pathname}` } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock generation backend listening on http://localhost:${PORT}`);
+});
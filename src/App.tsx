@@ -1,5 +1,39 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { QCImage, PromptEntry, Character } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { QCImage, PromptEntry, Character, ExtractionResult, BackgroundEntry, QCBackground, AudioCue, QCAudioCue, RetryItem, ImageVersion, UndoEntry, ImagePatch, CastMember, Outfit, SceneLocation, Rejection, RejectionReason, QCEvent } from './types';
+import { extractScreenplayFromDocx, detectTimeOfDay } from './docxExtraction';
+import { regenerateImage, BackendError } from './regenerationClient';
+import { useBackendHealth, BackendHealth } from './backendHealth';
+import { saveSession, loadSession, clearSession, getStorageUsage, StorageUsage } from './sessionStore';
+import { buildExportZip, downloadBlob, ExportEntry } from './exportApproved';
+import ComparisonView from './ComparisonView';
+import { loadOutfits, saveOutfits, detectOutfits, wardrobeFor, outfitLabel, DEFAULT_OUTFIT, DEFAULT_OUTFITS } from './outfitCatalog';
+import { loadLocations, saveLocations, rankLocations, detectSettingFromPrompt, locationPath, DEFAULT_LOCATIONS, GENERIC_LOCATION } from './locationLibrary';
+import { loadMatching, saveMatching, indexPrompts, matchPromptToImage, splitPromptEntry, parseFileKey, stripVariants, shotKeyId, compileScheme, DEFAULT_MATCHING, MatchingConfig, MatchScheme } from './filenameMatching';
+import { parsePromptFile, hasErrors, ImportPreview, ImportFormat } from './promptImport';
+import { diffWords, isPromptEdited, buildEditedPromptJson } from './promptDiff';
+import { checkContinuity, ContinuityWarning } from './continuity';
+import { groupByChapter, flatGroup, queueOrder, chapterIdOf, naturalCompare } from './queueGrouping';
+import { matchesFilter, isFilterActive, EMPTY_FILTER, SORT_OPTIONS, SORT_COMPARATORS, QueueFilter, QueueSort, QueueFacts } from './queueFilter';
+import { reconcile, PromptAssignments, ReconciledEntry } from './reconciliation';
+import { planBulkAction, BulkAction, BulkPlan } from './bulkActions';
+import { reviewsPerDay, latestDecisions, approvalRates, averageRegenerations, rejectionReasonCounts, NO_REASON, AnalyticsFacet } from './qcAnalytics';
+import { loadRejectionReasons, saveRejectionReasons, reasonIdFor, reasonLabels, describeRejection } from './rejectionReasons';
+import { loadCast, saveCast, parseCast, detectCast, buildMatcher, findCastOccurrences, toReferenceThumbnail, DEFAULT_CAST } from './castRegistry';
+import {
+  HotkeyAction,
+  HotkeyMap,
+  HOTKEY_ACTIONS,
+  DEFAULT_HOTKEYS,
+  CHEAT_SHEET_KEY,
+  loadHotkeys,
+  saveHotkeys,
+  eventToCombo,
+  findAction,
+  rebind,
+  isTypingTarget,
+  formatCombo
+} from './hotkeys';
+import { runWithConcurrency, withRetry } from './batchRunner';
 import { 
   LayoutDashboard, 
   Image as ImageIcon, 
@@ -16,65 +50,128 @@ import {
   PlayCircle,
   FolderOpen,
   Terminal,
-  AlertCircle
+  AlertCircle,
+  Mountain,
+  Music,
+  Volume2,
+  Mic,
+  Paperclip,
+  Database,
+  Trash2,
+  Square,
+  History,
+  Undo2,
+  Keyboard,
+  Redo2,
+  Users,
+  Plus,
+  Shirt,
+  MapPin,
+  Regex,
+  ListChecks,
+  Diff,
+  AlertTriangle,
+  ChevronDown,
+  Layers,
+  Search,
+  Filter,
+  BarChart3
 } from 'lucide-react';
 
 // --- Utility Functions ---
 
-const detectSettingFromPrompt = (prompt: string): string => {
-    if (!prompt) return 'generic';
-    const p = prompt.toLowerCase();
-    if (p.includes('vip')) return 'hospital_vip';
-    if (p.includes('hospital') || p.includes('rumah sakit')) return 'hospital_regular';
-    if (p.includes('living') || p.includes('ruang tamu')) return 'apartment_living_room';
-    if (p.includes('bedroom') || p.includes('kamar tidur')) return 'apartment_bedroom';
-    return 'generic';
+const detectCharactersFromPrompt = (prompt: string, cast: CastMember[], outfits: Outfit[]): Character[] => {
+    if (!prompt) return [];
+    const dressed = detectOutfits(prompt, cast, outfits);
+    return detectCast(prompt, cast).map(({ member }) => ({
+        name: member.name,
+        outfit: dressed[member.id] ?? member.defaultOutfit
+    }));
 };
 
-const detectCharactersFromPrompt = (prompt: string): Character[] => {
-    if (!prompt) return [];
-    const characters: Character[] = [];
-    const p = prompt.toLowerCase();
-    
-    const detectOutfit = () => {
-        if (p.includes('baju pasien') || p.includes('patient')) return 'patient';
-        if (p.includes('formal')) return 'formal';
-        if (p.includes('casual')) return 'casual';
-        if (p.includes('santai')) return 'santai';
-        return 'default';
-    };
-    
-    if (p.includes('mc')) characters.push({ name: 'MC', outfit: detectOutfit() });
-    if (p.includes('raka')) characters.push({ name: 'Raka', outfit: detectOutfit() });
-    if (p.includes('alina')) characters.push({ name: 'Alina', outfit: detectOutfit() });
-    if (p.includes('aruna')) characters.push({ name: 'Aruna', outfit: 'default' });
-    
-    return characters;
+const PROMPT_PLACEHOLDER = 'Prompt will appear here once JSON is loaded...';
+
+const createVersion = (url: string, prompt: string, outfitOverride: Record<string, string>, source: ImageVersion['source']): ImageVersion => ({
+    id: `v_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    prompt,
+    outfitOverride,
+    createdAt: Date.now(),
+    source
+});
+
+// Makes `version` the active one and sends the image back to review
+const pushVersion = (img: QCImage, version: ImageVersion): QCImage => ({
+    ...img,
+    history: [...img.history, version],
+    activeVersionId: version.id,
+    url: version.url,
+    status: 'pending'
+});
+
+const toQCBackground = (entry: BackgroundEntry): QCBackground => ({
+    ...entry,
+    url: null,
+    name: `${entry.locationId}_${entry.timeOfDay}`,
+    originalPrompt: entry.prompt,
+    status: 'pending'
+});
+
+const matchBackgroundToFile = (fileName: string, backgrounds: QCBackground[]): number => {
+    const cleanName = fileName.replace(/_compressed/gi, '').replace(/\.(png|jpg|jpeg|webp)$/i, '').toLowerCase();
+    const time = detectTimeOfDay(cleanName);
+    return backgrounds.findIndex(bg =>
+        !bg.url &&
+        cleanName.includes(bg.locationId) &&
+        (time === 'unspecified' || bg.timeOfDay === time)
+    );
 };
 
-const matchPromptToImage = (imageName: string, promptsArray: PromptEntry[]): string | null => {
-    if (!promptsArray || promptsArray.length === 0) return null;
-    const cleanImageName = imageName.replace(/_compressed/gi, '').replace(/\.(png|jpg|jpeg|webp)$/i, '').toLowerCase();
-    const imgMatch = cleanImageName.match(/chap[_\s]*(\d+)_(\d+)/i);
-    
-    if (imgMatch) {
-        const imgChapter = `${imgMatch[1]}_${imgMatch[2]}`;
-        for (const promptEntry of promptsArray) {
-            const outputAi = promptEntry.outputAi || '';
-            if (outputAi.includes('||')) {
-                const parts = outputAi.split('||');
-                const promptText = parts[0].trim();
-                const filenameFromJSON = parts[1].trim();
-                
-                const jsonMatch = filenameFromJSON.match(/chap[_\s]*(\d+)_(\d+)/i);
-                if (jsonMatch) {
-                    const jsonChapter = `${jsonMatch[1]}_${jsonMatch[2]}`;
-                    if (imgChapter === jsonChapter) return promptText;
-                }
-            }
-        }
-    }
-    return null;
+const toQCAudioCue = (cue: AudioCue): QCAudioCue => ({
+    ...cue,
+    url: null,
+    status: 'pending'
+});
+
+const AUDIO_KIND_META = {
+    bgm: { label: 'BGM', icon: Music, className: 'bg-primary/10 text-primary border-primary/20' },
+    sfx: { label: 'SFX', icon: Volume2, className: 'bg-warning/10 text-warning border-warning/20' },
+    voice: { label: 'Voice', icon: Mic, className: 'bg-success/10 text-success border-success/20' }
+};
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const UNDO_LIMIT = 100;
+// Keystrokes in the prompt box within this window collapse into one undo step
+const UNDO_COALESCE_MS = 1500;
+
+const UNDO_SHORTCUTS = { undo: ['Ctrl+Z', 'Meta+Z'], redo: ['Ctrl+Shift+Z', 'Meta+Shift+Z', 'Ctrl+Y'] };
+
+const DEFAULT_RETRY_SETTINGS = { concurrency: 2, retries: 2, backoffMs: 2000 };
+
+// Client errors (bad prompt, validation) won't get better by asking again
+const isRetryableError = (err: unknown): boolean => {
+    if (!(err instanceof BackendError)) return true;
+    if (err.code === 'cancelled') return false;
+    return err.status === undefined || err.status >= 500 || err.status === 408 || err.status === 429;
+};
+
+const RETRY_STATE_META = {
+    queued: 'bg-background text-muted',
+    running: 'bg-primary/10 text-primary',
+    succeeded: 'bg-success/10 text-success',
+    failed: 'bg-danger/10 text-danger'
+};
+
+const CONFIDENCE_META = {
+    high: 'text-success',
+    medium: 'text-warning',
+    low: 'text-danger'
 };
 
 // --- Components ---
@@ -111,50 +208,535 @@ const SidebarItem = ({
   </div>
 );
 
-const ComparisonView = ({ oldUrl, newUrl }: { oldUrl: string, newUrl: string }) => {
-  const [sliderPos, setSliderPos] = useState(50);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
+const StatCard = ({
+  label,
+  value,
+  caption,
+  icon: Icon,
+  tone
+}: {
+  label: string,
+  value: number,
+  caption: string,
+  icon: any,
+  tone: 'neutral' | 'success' | 'danger' | 'warning'
+}) => {
+  const tones = {
+    neutral: { hover: 'hover:border-border/80', label: 'text-muted', icon: 'text-muted', value: 'text-white' },
+    success: { hover: 'hover:border-success/50', label: 'text-success/80', icon: 'text-success', value: 'text-success' },
+    danger: { hover: 'hover:border-danger/50', label: 'text-danger/80', icon: 'text-danger', value: 'text-danger' },
+    warning: { hover: 'hover:border-warning/50', label: 'text-warning/80', icon: 'text-warning', value: 'text-warning' }
+  }[tone];
+
+  return (
+    <div className={`bg-surface border border-border p-6 rounded-xl ${tones.hover} transition-colors`}>
+        <div className="flex items-center justify-between mb-4">
+             <div className={`${tones.label} text-xs font-bold uppercase tracking-wider`}>{label}</div>
+             <Icon size={16} className={tones.icon} />
+        </div>
+        <div className={`text-4xl font-bold ${tones.value}`}>{value}</div>
+        <div className="text-xs text-muted mt-2">{caption}</div>
+    </div>
+  );
+};
+
+const BACKEND_STATE_META = {
+    checking: { label: 'Checking', dot: 'bg-muted animate-pulse', text: 'text-muted' },
+    connected: { label: 'Connected', dot: 'bg-success animate-pulse', text: 'text-success' },
+    degraded: { label: 'Degraded', dot: 'bg-warning', text: 'text-warning' },
+    offline: { label: 'Offline', dot: 'bg-danger', text: 'text-danger' }
+};
+
+const BackendOfflineNotice = ({ health, onRetry }: { health: BackendHealth, onRetry: () => void }) => (
+  <div className="bg-danger/10 border-t border-danger/30 px-6 py-2 flex items-center gap-2 text-xs text-danger z-20">
+    <AlertCircle size={14} />
+    <span className="flex-1">Regenerate is disabled: the generation backend is offline ({health.message}).</span>
+    <button onClick={onRetry} className="font-bold uppercase tracking-wider hover:text-white transition-colors">Retry</button>
+  </div>
+);
+
+const BackendErrorBanner = ({ error, onDismiss }: { error: BackendError, onDismiss: () => void }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 w-full max-w-lg bg-danger/10 border border-danger/40 rounded-xl p-4 shadow-2xl backdrop-blur-md flex items-start gap-3 animate-in fade-in duration-200">
+    <AlertCircle size={18} className="text-danger flex-shrink-0 mt-0.5" />
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="text-sm font-bold text-white">Regeneration failed</span>
+        <span className="text-[10px] font-mono uppercase bg-danger/20 text-danger px-1.5 py-0.5 rounded">
+          {error.code}{error.status ? ` · ${error.status}` : ''}
+        </span>
+      </div>
+      <div className="text-xs text-gray-300">{error.message}</div>
+      {error.details && <div className="text-[11px] text-muted font-mono mt-1 break-words">{error.details}</div>}
+    </div>
+    <button onClick={onDismiss} className="text-muted hover:text-white transition-colors">
+      <XCircle size={16} />
+    </button>
+  </div>
+);
+
+const VersionFilmstrip = ({
+  versions,
+  activeId,
+  baseId,
+  targetId,
+  onPick,
+  onRevert
+}: {
+  versions: ImageVersion[],
+  activeId: string,
+  baseId: string | null,
+  targetId: string | null,
+  onPick: (id: string, slot: 'base' | 'target') => void,
+  onRevert: (id: string) => void
+}) => (
+  <div className="bg-surface border-t border-border px-4 py-2 flex items-center gap-3 z-20">
+    <div className="text-[10px] font-bold text-muted uppercase tracking-wider flex items-center gap-1.5 flex-shrink-0" title="Click: compare base (A) · Shift+Click: compare target (B)">
+      <History size={12} /> {versions.length} versions
+    </div>
+    <div className="flex-1 flex items-center gap-2 overflow-x-auto py-1">
+      {versions.map((v, i) => (
+        <div
+          key={v.id}
+          onClick={(e) => onPick(v.id, e.shiftKey ? 'target' : 'base')}
+          className={`group relative w-20 h-12 flex-shrink-0 rounded-md overflow-hidden cursor-pointer border-2 transition-colors ${
+            v.id === baseId ? 'border-warning' : v.id === targetId ? 'border-primary' : 'border-transparent hover:border-border'
+          }`}
+          title={`v${i + 1} · ${v.source} · ${new Date(v.createdAt).toLocaleString()}\n${v.prompt}`}
+        >
+          <img src={v.url} className="w-full h-full object-cover bg-black" alt="" />
+          <div className="absolute top-0.5 left-0.5 text-[9px] font-bold font-mono bg-black/70 text-white px-1 rounded">v{i + 1}</div>
+          {v.id === baseId && <div className="absolute top-0.5 right-0.5 text-[9px] font-bold bg-warning text-black px-1 rounded">A</div>}
+          {v.id === targetId && <div className="absolute top-0.5 right-0.5 text-[9px] font-bold bg-primary text-white px-1 rounded">B</div>}
+          {v.id === activeId ? (
+            <div className="absolute bottom-0 inset-x-0 text-[9px] font-bold uppercase text-center bg-success/80 text-white">Active</div>
+          ) : (
+            <button
+              onClick={(e) => { e.stopPropagation(); onRevert(v.id); }}
+              className="absolute bottom-0 inset-x-0 text-[9px] font-bold uppercase bg-black/80 text-white opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-1"
+            >
+              <Undo2 size={9} /> Revert
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
 
-  const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (!isDragging || !containerRef.current) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
-    setSliderPos((x / rect.width) * 100);
-  }, [isDragging]);
+const Kbd = ({ combo }: { combo: string }) => (
+  <kbd className="text-[10px] font-mono normal-case opacity-60 border border-current/30 rounded px-1 py-px">{formatCombo(combo)}</kbd>
+);
 
-  const handleMouseUp = useCallback(() => setIsDragging(false), []);
+const HotkeyCheatSheet = ({
+  hotkeys,
+  onChange,
+  onClose
+}: {
+  hotkeys: HotkeyMap,
+  onChange: (map: HotkeyMap) => void,
+  onClose: () => void
+}) => {
+  const [listening, setListening] = useState<HotkeyAction | null>(null);
 
   useEffect(() => {
-    if (isDragging) {
-      window.addEventListener('mousemove', handleMouseMove);
-      window.addEventListener('mouseup', handleMouseUp);
-    }
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      window.removeEventListener('mouseup', handleMouseUp);
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        if (listening) setListening(null);
+        else onClose();
+        return;
+      }
+      if (!listening) {
+        if (e.key === CHEAT_SHEET_KEY) onClose();
+        return;
+      }
+      const combo = eventToCombo(e);
+      if (!combo || combo === CHEAT_SHEET_KEY) return;
+      onChange(rebind(hotkeys, listening, combo));
+      setListening(null);
     };
-  }, [isDragging, handleMouseMove, handleMouseUp]);
+    // Capture phase so the QC hotkeys don't fire while remapping
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [listening, hotkeys, onChange, onClose]);
 
   return (
-    <div 
-      ref={containerRef}
-      className="relative w-full h-full select-none cursor-ew-resize overflow-hidden rounded-lg shadow-2xl bg-black border border-border"
-      onMouseDown={() => setIsDragging(true)}
-    >
-      <img src={oldUrl} className="absolute top-0 left-0 w-full h-full object-contain" alt="Original" />
-      <div 
-        className="absolute top-0 left-0 w-full h-full overflow-hidden border-r border-white/50"
-        style={{ width: `${sliderPos}%` }}
-      >
-        <img src={newUrl} className="absolute top-0 left-0 w-full h-full object-contain max-w-none" style={{ width: containerRef.current?.offsetWidth }} alt="New" />
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-2xl w-full max-w-md p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Keyboard size={18} className="text-primary" /> QC Hotkeys</h3>
+          <button onClick={onClose} className="text-muted hover:text-white transition-colors"><XCircle size={18} /></button>
+        </div>
+        <div className="space-y-1">
+          {HOTKEY_ACTIONS.map(action => (
+            <div key={action.id} className="flex items-center justify-between px-3 py-2 rounded-lg hover:bg-surfaceHighlight/50">
+              <span className="text-sm text-gray-300">{action.label}</span>
+              <button
+                onClick={() => setListening(action.id)}
+                className={`min-w-[96px] px-2 py-1 rounded border text-xs font-mono transition-colors ${
+                  listening === action.id ? 'border-primary bg-primary/20 text-primary animate-pulse' : 'border-border bg-[#0c0c0e] text-white hover:border-primary'
+                }`}
+              >
+                {listening === action.id ? 'Press a key…' : formatCombo(hotkeys[action.id])}
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="mt-5 pt-4 border-t border-border flex items-center justify-between text-xs text-muted">
+          <span>Click a binding to remap. <Kbd combo={CHEAT_SHEET_KEY} /> toggles this sheet. Hotkeys pause while typing.</span>
+          <button onClick={() => onChange(DEFAULT_HOTKEYS)} className="font-bold uppercase tracking-wider hover:text-white transition-colors flex-shrink-0 ml-3">Reset</button>
+        </div>
       </div>
-      <div 
-        className="absolute top-0 bottom-0 w-0.5 bg-primary cursor-ew-resize z-10 shadow-[0_0_15px_rgba(99,102,241,0.5)]"
-        style={{ left: `${sliderPos}%` }}
+    </div>
+  );
+};
+
+// Edits a string list as text. The raw draft is kept while typing, so separators and
+// trailing spaces survive, and is parsed into the list on blur (or Enter for one-liners).
+const ListInput = ({
+  values,
+  onCommit,
+  lines = false,
+  placeholder,
+  className
+}: {
+  values: string[],
+  onCommit: (values: string[]) => void,
+  lines?: boolean, // One entry per line instead of comma separated
+  placeholder?: string,
+  className: string
+}) => {
+  const [draft, setDraft] = useState<string | null>(null); // null while not editing
+  const commit = () => {
+    if (draft === null) return;
+    onCommit(draft.split(lines ? '\n' : ',').map(v => v.trim()).filter(Boolean));
+    setDraft(null);
+  };
+  const shared = {
+    value: draft ?? values.join(lines ? '\n' : ', '),
+    placeholder,
+    onBlur: commit,
+    className
+  };
+  return lines
+    ? <textarea {...shared} rows={Math.max(3, values.length + 1)} onChange={(e) => setDraft(e.target.value)} />
+    : <input type="text" {...shared} onChange={(e) => setDraft(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && commit()} />;
+};
+
+const PromptDiff = ({ before, after }: { before: string, after: string }) => (
+  <div className="text-xs font-mono leading-relaxed whitespace-pre-wrap break-words">
+    {diffWords(before, after).map((part, i) => (
+      <span
+        key={i}
+        className={part.type === 'added' ? 'bg-success/20 text-success' : part.type === 'removed' ? 'bg-danger/20 text-danger line-through' : 'text-gray-400'}
       >
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-primary rounded-full flex items-center justify-center text-white font-bold text-xs shadow-lg border-2 border-white">
-          <SplitSquareHorizontal size={14} />
+        {part.text}
+      </span>
+    ))}
+  </div>
+);
+
+const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  json: 'Prompt JSON',
+  extraction: 'Extraction result',
+  csv: 'CSV sheet',
+  tsv: 'TSV sheet'
+};
+
+const ImportPreviewDialog = ({
+  preview,
+  currentCount,
+  onApply,
+  onClose
+}: {
+  preview: ImportPreview,
+  currentCount: number,
+  onApply: () => void,
+  onClose: () => void
+}) => {
+  const { result, issues } = preview;
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.length - errors.length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><FileText size={18} className="text-primary" /> Import Preview</h3>
+          <button onClick={onClose} className="text-muted hover:text-white transition-colors"><XCircle size={18} /></button>
+        </div>
+        <p className="text-xs text-muted mb-4">
+          <span className="font-mono text-gray-300">{preview.fileName}</span> · {IMPORT_FORMAT_LABELS[preview.format]} · {result.images.length} prompts
+          {preview.format === 'extraction' && ` · ${result.backgrounds.length} backgrounds · ${result.audio.length} audio cues`}
+        </p>
+
+        {issues.length > 0 && (
+          <div className={`mb-4 rounded-lg border max-h-48 overflow-y-auto ${errors.length ? 'border-danger/40 bg-danger/5' : 'border-warning/40 bg-warning/5'}`}>
+            <div className={`px-3 py-2 text-xs font-bold sticky top-0 bg-surface/95 ${errors.length ? 'text-danger' : 'text-warning'}`}>
+              {errors.length} error{errors.length === 1 ? '' : 's'} · {warnings} warning{warnings === 1 ? '' : 's'}
+            </div>
+            {issues.map((issue, i) => (
+              <div key={i} className="px-3 py-1 text-xs flex gap-3">
+                <span className={`w-14 shrink-0 font-bold uppercase text-[10px] ${issue.severity === 'error' ? 'text-danger' : 'text-warning'}`}>{issue.severity}</span>
+                <span className="w-16 shrink-0 font-mono text-muted">{issue.line !== null ? `line ${issue.line}` : '—'}</span>
+                <span className="w-40 shrink-0 font-mono text-gray-300 truncate" title={issue.field}>{issue.field}</span>
+                <span className="text-gray-300">{issue.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+          {result.images.length === 0 && <div className="p-4 text-xs text-muted italic">Nothing to import.</div>}
+          {result.images.slice(0, 200).map((entry, i) => (
+            <div key={i} className="px-3 py-1.5 text-xs text-gray-300 truncate" title={entry.outputAi}>
+              <span className="text-muted font-mono mr-2">{i + 1}</span>{entry.outputAi}
+            </div>
+          ))}
+          {result.images.length > 200 && <div className="px-3 py-1.5 text-xs text-muted">…and {result.images.length - 200} more</div>}
+        </div>
+
+        <div className="mt-5 flex items-center justify-between gap-4">
+          <span className="text-xs text-muted">
+            {errors.length > 0 ? 'Fix the errors above and choose the file again.' : `Replaces the ${currentCount} prompt entries currently loaded.`}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors">Cancel</button>
+            <button
+              onClick={onApply}
+              disabled={errors.length > 0 || result.images.length === 0}
+              className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-40"
+            >
+              Replace Prompts
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RejectDialog = ({
+  title,
+  reasons,
+  initial,
+  onReasonsChange,
+  onConfirm,
+  onClose
+}: {
+  title: string,
+  reasons: RejectionReason[],
+  initial?: Rejection,
+  onReasonsChange: (reasons: RejectionReason[]) => void,
+  onConfirm: (rejection: Rejection) => void,
+  onClose: () => void
+}) => {
+  const [picked, setPicked] = useState<string[]>(initial?.reasons || []);
+  const [note, setNote] = useState(initial?.note || '');
+  const [editing, setEditing] = useState(false);
+  const [newReason, setNewReason] = useState('');
+
+  const toggle = (id: string) => setPicked(p => p.includes(id) ? p.filter(r => r !== id) : [...p, id]);
+  const confirm = () => onConfirm({ reasons: picked, note: note.trim(), at: Date.now() });
+  const addReason = () => {
+    if (!newReason.trim()) return;
+    onReasonsChange([...reasons, { id: reasonIdFor(newReason, reasons), label: newReason.trim() }]);
+    setNewReason('');
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (editing) return; // The list editor's inputs handle their own keys
+      if (e.key === 'Escape') { e.preventDefault(); onClose(); return; }
+      if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); confirm(); return; }
+      if (isTypingTarget(e.target)) return;
+      // 1-9 toggle reasons in list order
+      const n = Number(e.key);
+      if (Number.isInteger(n) && n >= 1 && n <= reasons.length) {
+        e.preventDefault();
+        toggle(reasons[n - 1].id);
+      }
+    };
+    // Capture phase so the QC hotkeys don't fire while picking
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-2xl w-full max-w-md p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><XCircle size={18} className="text-danger" /> Reject</h3>
+          <button onClick={onClose} className="text-muted hover:text-white transition-colors"><XCircle size={18} /></button>
+        </div>
+        <p className="text-xs text-muted mb-4 truncate">{title}</p>
+
+        {editing ? (
+          <div className="space-y-2">
+            {reasons.map(reason => (
+              <div key={reason.id} className="flex items-center gap-2">
+                <input
+                  value={reason.label}
+                  onChange={(e) => onReasonsChange(reasons.map(r => r.id === reason.id ? { ...r, label: e.target.value } : r))}
+                  className="flex-1 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none"
+                />
+                <button onClick={() => onReasonsChange(reasons.filter(r => r.id !== reason.id))} className="p-1.5 text-muted hover:text-danger transition-colors" title="Remove reason">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <input
+                value={newReason}
+                onChange={(e) => setNewReason(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addReason()}
+                placeholder="New reason"
+                className="flex-1 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none"
+              />
+              <button onClick={addReason} className="p-1.5 text-muted hover:text-white transition-colors" title="Add reason"><Plus size={14} /></button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {reasons.map((reason, i) => (
+                <button
+                  key={reason.id}
+                  onClick={() => toggle(reason.id)}
+                  className={`px-3 py-1.5 rounded-full border text-xs transition-colors flex items-center gap-1.5 ${picked.includes(reason.id) ? 'bg-danger/20 border-danger/50 text-danger' : 'bg-white/5 border-white/10 text-gray-300 hover:text-white'}`}
+                >
+                  {i < 9 && <span className="font-mono text-[10px] opacity-60">{i + 1}</span>}
+                  {reason.label}
+                </button>
+              ))}
+            </div>
+            <textarea
+              autoFocus
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the artist (optional)"
+              className="w-full h-20 bg-[#0c0c0e] border border-border rounded-lg p-3 text-xs text-gray-300 focus:border-primary outline-none resize-none"
+            />
+          </>
+        )}
+
+        <div className="mt-5 flex items-center justify-between gap-4">
+          <button onClick={() => setEditing(v => !v)} className="text-xs font-bold uppercase tracking-wider text-muted hover:text-white transition-colors">
+            {editing ? 'Done' : 'Edit reasons'}
+          </button>
+          {!editing && (
+            <div className="flex gap-2">
+              <button onClick={onClose} className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors">Cancel</button>
+              <button onClick={confirm} className="h-9 px-4 rounded-lg bg-danger hover:bg-red-500 text-white text-xs font-bold uppercase tracking-wider transition-colors">
+                {picked.length === 0 && !note.trim() ? 'Reject without reason' : 'Reject'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BulkActionDialog = ({
+  initial,
+  selectedCount,
+  characters,
+  wardrobeOf,
+  planFor,
+  onConfirm,
+  onClose
+}: {
+  initial: BulkAction,
+  selectedCount: number,
+  characters: string[], // Everyone detected in the selection
+  wardrobeOf: (character: string) => Outfit[],
+  planFor: (action: BulkAction) => BulkPlan,
+  onConfirm: (plan: BulkPlan) => void,
+  onClose: () => void
+}) => {
+  const [action, setAction] = useState<BulkAction>(initial);
+  const plan = planFor(action);
+  const inputClass = 'bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-surface border border-border rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><ListChecks size={18} className="text-primary" /> {plan.label}</h3>
+          <button onClick={onClose} className="text-muted hover:text-white transition-colors"><XCircle size={18} /></button>
+        </div>
+        <p className="text-xs text-muted mb-4">
+          {plan.changes.length} of {selectedCount} selected image{selectedCount === 1 ? '' : 's'} will change
+          {plan.skipped.length > 0 && ` · ${plan.skipped.length} skipped`}
+        </p>
+
+        {action.kind === 'outfit' && (
+          <div className="flex gap-2 mb-4">
+            <select
+              value={action.character}
+              onChange={(e) => setAction({ ...action, character: e.target.value, outfit: DEFAULT_OUTFIT })}
+              className={`${inputClass} flex-1`}
+            >
+              {characters.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select value={action.outfit} onChange={(e) => setAction({ ...action, outfit: e.target.value })} className={`${inputClass} flex-1`}>
+              <option value={DEFAULT_OUTFIT}>Default Prompt</option>
+              {wardrobeOf(action.character).map(o => <option key={o.id} value={o.id}>{o.icon} {o.label}</option>)}
+            </select>
+          </div>
+        )}
+        {action.kind === 'replace' && (
+          <div className="space-y-2 mb-4">
+            <div className="flex gap-2">
+              <input autoFocus value={action.find} onChange={(e) => setAction({ ...action, find: e.target.value })} placeholder="Find" className={`${inputClass} flex-1 font-mono`} />
+              <input value={action.replace} onChange={(e) => setAction({ ...action, replace: e.target.value })} placeholder="Replace with" className={`${inputClass} flex-1 font-mono`} />
+            </div>
+            <div className="flex gap-4 text-xs text-gray-300">
+              <label className="flex items-center gap-1.5"><input type="checkbox" checked={action.caseSensitive} onChange={(e) => setAction({ ...action, caseSensitive: e.target.checked })} /> Match case</label>
+              <label className="flex items-center gap-1.5"><input type="checkbox" checked={action.wholeWord} onChange={(e) => setAction({ ...action, wholeWord: e.target.checked })} /> Whole words</label>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+          {plan.changes.length === 0 && <div className="p-4 text-xs text-muted italic">Nothing to change.</div>}
+          {plan.changes.map(change => (
+            <div key={change.img.id} className="px-3 py-2 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-gray-300 truncate">{change.img.name}</span>
+                <span className="text-primary shrink-0">{change.detail}</span>
+              </div>
+              {change.after.prompt !== undefined && (
+                <div className="mt-1.5 max-h-24 overflow-y-auto"><PromptDiff before={change.before.prompt || ''} after={change.after.prompt} /></div>
+              )}
+            </div>
+          ))}
+          {plan.skipped.map(({ img, reason }) => (
+            <div key={img.id} className="px-3 py-1.5 text-xs flex items-center justify-between gap-3 text-muted">
+              <span className="truncate">{img.name}</span>
+              <span className="shrink-0 italic">{reason}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-5 flex items-center justify-between gap-4">
+          <span className="text-xs text-muted">
+            {action.kind === 'retry' ? 'Statuses stay as they are; run the batch from the Retry Queue.'
+              : action.kind === 'outfit' ? 'Applies to these shots only; regenerate them to see the new outfit.'
+              : 'One undo step reverts the whole batch.'}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors">Cancel</button>
+            <button
+              onClick={() => onConfirm(plan)}
+              disabled={plan.changes.length === 0}
+              className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-40"
+            >
+              Apply to {plan.changes.length}
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -165,29 +747,156 @@ const ComparisonView = ({ oldUrl, newUrl }: { oldUrl: string, newUrl: string })
 
 export default function App() {
   // State
-  const [currentView, setCurrentView] = useState<'dashboard' | 'qc' | 'extraction' | 'retry'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'qc' | 'extraction' | 'audio' | 'retry' | 'cast' | 'wardrobe' | 'locations' | 'matching' | 'reconcile' | 'edits' | 'continuity'>('dashboard');
   const [backendUrl, setBackendUrl] = useState(localStorage.getItem('backend-url') || 'http://localhost:5000');
   
   // Data State
   const [images, setImages] = useState<QCImage[]>([]);
   const [promptData, setPromptData] = useState<PromptEntry[]>([]);
+  const [promptAssignments, setPromptAssignments] = useState<PromptAssignments>({});
+  const [continuityAcks, setContinuityAcks] = useState<string[]>([]); // Warning ids marked intentional
+  const [qcEvents, setQcEvents] = useState<QCEvent[]>([]); // Every decision and regeneration, for the dashboard analytics
+  const [analyticsFacet, setAnalyticsFacet] = useState<AnalyticsFacet>('character');
+  const [showAckedContinuity, setShowAckedContinuity] = useState(false);
+  const [collapsedChapters, setCollapsedChapters] = useState<string[]>([]);
+  const [queueFilter, setQueueFilter] = useState<QueueFilter>(EMPTY_FILTER);
+  const [queueSort, setQueueSort] = useState<QueueSort>('chapter');
+  const [showQueueFilters, setShowQueueFilters] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]); // Multi-select for bulk actions
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null); // Image id a shift-click extends from
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<'current' | 'selection' | null>(null); // Open reject picker
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
   
   // QC State
   const [qcIndex, setQcIndex] = useState(0);
   const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<{ base: string | null, target: string | null }>({ base: null, target: null });
   const [outfitOverride, setOutfitOverride] = useState<Record<string, string>>({});
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ done: number, total: number } | null>(null);
+
+  // Retry Queue State
+  const [retryQueue, setRetryQueue] = useState<RetryItem[]>([]);
+  const [retrySettings, setRetrySettings] = useState<typeof DEFAULT_RETRY_SETTINGS>(() => {
+    try {
+        return { ...DEFAULT_RETRY_SETTINGS, ...JSON.parse(localStorage.getItem('retry-settings') || '{}') };
+    } catch {
+        return DEFAULT_RETRY_SETTINGS;
+    }
+  });
+  const [isRetryRunning, setIsRetryRunning] = useState(false);
+  const retryAbortRef = useRef<AbortController | null>(null);
+  const [qcTab, setQcTab] = useState<'cg' | 'backgrounds'>('cg');
+  const [regenError, setRegenError] = useState<BackendError | null>(null);
+  const [hotkeys, setHotkeys] = useState<HotkeyMap>(loadHotkeys);
+  const [showCheatSheet, setShowCheatSheet] = useState(false);
+  const [cast, setCast] = useState<CastMember[]>(loadCast);
+  const [outfits, setOutfits] = useState<Outfit[]>(loadOutfits);
+  const [rejectionReasons, setRejectionReasons] = useState<RejectionReason[]>(loadRejectionReasons);
+  const [locations, setLocations] = useState<SceneLocation[]>(loadLocations);
+  const [locationTestPrompt, setLocationTestPrompt] = useState('Alina rests in the VIP room at the rumah sakit.');
+  const [newLocationId, setNewLocationId] = useState('');
+  const [matching, setMatching] = useState<MatchingConfig>(loadMatching);
+  const [matchingDraft, setMatchingDraft] = useState<MatchingConfig>(matching);
+  const [matchingSample, setMatchingSample] = useState('chap3_5_v2.png');
+  const [castTestPrompt, setCastTestPrompt] = useState('MC and mas Raka visit the McDonald near the hospital.');
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const regenAbortRef = useRef<AbortController | null>(null);
+
+  // Background QC State
+  const [backgrounds, setBackgrounds] = useState<QCBackground[]>([]);
+  const [bgIndex, setBgIndex] = useState(0);
+
+  // Audio Cue State
+  const [audioCues, setAudioCues] = useState<QCAudioCue[]>([]);
+  const [audioFilter, setAudioFilter] = useState<'all' | AudioCue['kind']>('all');
   
   // Extraction State
   const [docxFile, setDocxFile] = useState<File | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
   const [extractionLog, setExtractionLog] = useState<string[]>([]);
+  const [extractionResult, setExtractionResult] = useState<ExtractionResult | null>(null);
+
+  const [backendHealth, recheckBackend] = useBackendHealth(backendUrl);
+  const backendOffline = backendHealth.state === 'offline';
+  const backendMeta = BACKEND_STATE_META[backendHealth.state];
+
+  // Session Persistence State
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
 
   // Persist Backend URL
   useEffect(() => {
     localStorage.setItem('backend-url', backendUrl);
   }, [backendUrl]);
 
+  useEffect(() => {
+    localStorage.setItem('retry-settings', JSON.stringify(retrySettings));
+  }, [retrySettings]);
+
+  useEffect(() => {
+    saveHotkeys(hotkeys);
+  }, [hotkeys]);
+
+  useEffect(() => {
+    saveCast(cast);
+  }, [cast]);
+
+  useEffect(() => {
+    saveOutfits(outfits);
+  }, [outfits]);
+
+  useEffect(() => {
+    saveRejectionReasons(rejectionReasons);
+  }, [rejectionReasons]);
+
+  useEffect(() => {
+    saveLocations(locations);
+  }, [locations]);
+
+  useEffect(() => {
+    saveMatching(matching);
+  }, [matching]);
+
+  // Restore the previous QC session from IndexedDB
+  useEffect(() => {
+    loadSession()
+        .then(snapshot => {
+            if (!snapshot) return;
+            setImages(snapshot.images);
+            setPromptData(snapshot.promptData);
+            setOutfitOverride(snapshot.outfitOverride);
+            setBackgrounds(snapshot.backgrounds);
+            setAudioCues(snapshot.audioCues);
+            // A batch can't still be running after a reload
+            setRetryQueue(snapshot.retryQueue.map(r => r.state === 'running' ? { ...r, state: 'queued' } : r));
+            setPromptAssignments(snapshot.promptAssignments);
+            setContinuityAcks(snapshot.continuityAcks);
+            setQcEvents(snapshot.qcEvents);
+        })
+        .catch(err => setSessionError(`Could not restore session: ${err?.message || err}`))
+        .finally(() => setSessionLoaded(true));
+  }, []);
+
+  // Autosave (debounced) once the restore has finished, so we never overwrite it with empty state
+  useEffect(() => {
+    if (!sessionLoaded) return;
+    const timer = setTimeout(() => {
+        saveSession({ images, promptData, outfitOverride, backgrounds, audioCues, retryQueue, promptAssignments, continuityAcks, qcEvents })
+            .then(async () => {
+                setLastSavedAt(Date.now());
+                setSessionError(null);
+                setStorageUsage(await getStorageUsage());
+            })
+            .catch(err => setSessionError(`Autosave failed: ${err?.message || err}`));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [sessionLoaded, images, promptData, outfitOverride, backgrounds, audioCues, retryQueue, promptAssignments, continuityAcks, qcEvents]);
+
   // Derived Stats
   const stats = {
     total: images.length,
@@ -196,39 +905,101 @@ export default function App() {
     pending: images.filter(i => i.status === 'pending').length
   };
 
+  const bgStats = {
+    total: backgrounds.length,
+    approved: backgrounds.filter(b => b.status === 'approved').length,
+    rejected: backgrounds.filter(b => b.status === 'rejected').length,
+    pending: backgrounds.filter(b => b.status === 'pending').length
+  };
+
   // --- Handlers ---
 
+  const applyPromptData = (data: PromptEntry[]) => {
+    setPromptData(data);
+    const index = indexPrompts(data, matching);
+    // Update existing images if they match
+    setImages(prev => prev.map(img => {
+        const newPrompt = promptFor(img.name, index);
+        return newPrompt ? { ...img, prompt: newPrompt, originalPrompt: newPrompt } : img;
+    }));
+  };
+
   const handleDocxUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) setDocxFile(e.target.files[0]);
+    if (e.target.files?.[0]) {
+        setDocxFile(e.target.files[0]);
+        setExtractionResult(null);
+    }
+  };
+
+  // Backgrounds and audio cues from an extraction run or an imported extraction result
+  const applyExtractionAssets = (result: ExtractionResult, log: (message: string) => void) => {
+    if (result.backgrounds.length > 0) {
+        // Keep images already attached to a location/time from an earlier run
+        setBackgrounds(prev => result.backgrounds.map(entry => {
+            const existing = prev.find(b => b.url && b.locationId === entry.locationId && b.timeOfDay === entry.timeOfDay);
+            return existing
+                ? { ...toQCBackground(entry), file: existing.file, url: existing.url, name: existing.name, status: existing.status }
+                : toQCBackground(entry);
+        }));
+        setBgIndex(0);
+        log(`Queued ${result.backgrounds.length} backgrounds for QC.`);
+    }
+    if (result.audio.length > 0) {
+        // Re-extracting the same script should not drop files the sound designer attached
+        setAudioCues(prev => result.audio.map(cue => {
+            const existing = prev.find(a => a.url && a.kind === cue.kind && a.chapter === cue.chapter && a.scene === cue.scene && a.cue === cue.cue);
+            return existing ? { ...toQCAudioCue(cue), file: existing.file, url: existing.url, status: existing.status } : toQCAudioCue(cue);
+        }));
+        log(`Queued ${result.audio.length} audio cues.`);
+    }
   };
 
-  const handleSimulateExtraction = () => {
+  const handleExtraction = async () => {
     if (!docxFile) return;
     setIsExtracting(true);
-    setExtractionLog(['Initializing local parser module...', 'Reading DOCX binary structure...']);
-    
-    // Simulate steps to make the UI feel responsive and "ERP-like"
-    setTimeout(() => setExtractionLog(p => [...p, 'Extracting XML content from document...']), 800);
-    setTimeout(() => setExtractionLog(p => [...p, 'Parsing [insert image] tags...', 'Parsing [background] tags...']), 1600);
-    setTimeout(() => setExtractionLog(p => [...p, 'Analyzing scene context and dress codes...', 'Generating JSON structure...']), 2400);
-    setTimeout(() => {
-        setExtractionLog(p => [...p, '✅ Extraction Complete!', 'Ready for QC.']);
+    setExtractionResult(null);
+    setExtractionLog(['Initializing local parser module...']);
+    const log = (message: string) => setExtractionLog(p => [...p, message]);
+
+    try {
+        const result = await extractScreenplayFromDocx(docxFile, { log, detectLocation: prompt => detectSettingFromPrompt(prompt, locations) });
+        if (result.images.length === 0) {
+            log('⚠️ No [insert image] tags found. Prompt database left unchanged.');
+        } else {
+            applyPromptData(result.images);
+            log(`Loaded ${result.images.length} prompt entries into the session.`);
+        }
+        applyExtractionAssets(result, log);
+        setExtractionResult(result);
+        log('✅ Extraction Complete!');
+        if (result.images.length > 0) log('Ready for QC.');
+    } catch (err) {
+        log(`❌ ${err instanceof Error ? err.message : 'Extraction failed.'}`);
+    } finally {
         setIsExtracting(false);
-        // Alert to inform user about the missing backend connection for this specific demo feature
-        alert("Extraction Logic Simulation Complete.\n\nIn a live environment, this would send the DOCX to the python backend. For now, please upload the JSON file generated by your script in the QC Studio.");
-    }, 3200);
+    }
+  };
+
+  const handleDownloadExtraction = () => {
+    if (!extractionResult || !docxFile) return;
+    const blob = new Blob([JSON.stringify(extractionResult.images, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, docxFile.name.replace(/\.docx$/i, '') + '_prompts.json');
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
     // Explicitly cast to File[] to satisfy TypeScript
     const files = Array.from(e.target.files) as File[];
+    const index = indexPrompts(promptData, matching);
     const newImages: QCImage[] = files.map((file, idx) => {
-        const prompt = matchPromptToImage(file.name, promptData) || "Prompt will appear here once JSON is loaded...";
+        const prompt = promptFor(file.name, index) || PROMPT_PLACEHOLDER;
+        const version = createVersion(URL.createObjectURL(file), prompt, {}, 'upload');
         return {
             id: Date.now() + idx,
             file,
-            url: URL.createObjectURL(file),
+            url: version.url,
+            history: [version],
+            activeVersionId: version.id,
             name: file.name,
             prompt: prompt,
             originalPrompt: prompt,
@@ -236,150 +1007,1004 @@ export default function App() {
         };
     });
     setImages(prev => [...prev, ...newImages]);
+    setQcTab('cg');
+    setCurrentView('qc');
+  };
+
+  const handleBackgroundUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const files = Array.from(e.target.files) as File[];
+    setBackgrounds(prev => {
+        const updated = [...prev];
+        files.forEach((file, idx) => {
+            const url = URL.createObjectURL(file);
+            const match = matchBackgroundToFile(file.name, updated);
+            if (match >= 0) {
+                updated[match] = { ...updated[match], file, url, name: file.name, status: 'pending' };
+            } else {
+                const stem = file.name.replace(/\.(png|jpg|jpeg|webp)$/i, '');
+                const timeOfDay = detectTimeOfDay(stem);
+                updated.push({
+                    ...toQCBackground({
+                        id: `bg_upload_${Date.now()}_${idx}`,
+                        locationId: detectSettingFromPrompt(stem.replace(/_/g, ' '), locations),
+                        timeOfDay,
+                        prompt: '',
+                        chapter: 0,
+                        scene: 0
+                    }),
+                    file,
+                    url,
+                    name: file.name
+                });
+            }
+        });
+        return updated;
+    });
+    setQcTab('backgrounds');
     setCurrentView('qc');
   };
 
+  const handleAudioAttach = (cueId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Object URLs are made and freed out here; the updater may run twice under StrictMode
+    const previous = audioCues.find(cue => cue.id === cueId)?.url;
+    const url = URL.createObjectURL(file);
+    setAudioCues(prev => prev.map(cue => cue.id === cueId ? { ...cue, file, url, status: 'pending' } : cue));
+    if (previous) URL.revokeObjectURL(previous);
+  };
+
+  const setAudioStatus = (cueId: string, status: QCAudioCue['status']) => {
+    setAudioCues(prev => prev.map(cue => cue.id === cueId ? { ...cue, status } : cue));
+  };
+
+  // Validated and previewed before anything replaces the current prompts
   const handleJSONUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (ev) => setImportPreview(parsePromptFile(file.name, ev.target?.result as string, matching));
+      reader.readAsText(file);
+  };
+
+  const handleApplyImport = () => {
+      if (!importPreview || hasErrors(importPreview)) return;
+      const { result } = importPreview;
+      applyPromptData(result.images);
+      applyExtractionAssets(result, () => {});
+      setImportPreview(null);
+  };
+
+  const updateCastMember = (id: string, patch: Partial<CastMember>) => {
+      setCast(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+  };
+
+  const handleAddCastMember = () => {
+      const id = `cast_${Date.now().toString(36)}`;
+      setCast(prev => [...prev, { id, name: 'New Character', aliases: [], matchMode: 'word', caseSensitive: false, defaultOutfit: 'default' }]);
+  };
+
+  const handleCastReference = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          updateCastMember(id, { referenceImage: await toReferenceThumbnail(file) });
+      } catch (err) {
+          alert(err instanceof Error ? err.message : 'Could not read reference image.');
+      }
+  };
+
+  const handleCastImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
       if (!file) return;
       const reader = new FileReader();
       reader.onload = (ev) => {
           try {
-              const data = JSON.parse(ev.target?.result as string);
-              setPromptData(data);
-              // Update existing images if they match
-              setImages(prev => prev.map(img => {
-                  const newPrompt = matchPromptToImage(img.name, data);
-                  return newPrompt ? { ...img, prompt: newPrompt, originalPrompt: newPrompt } : img;
-              }));
-              alert(`✅ Successfully loaded ${data.length} prompt entries.`);
-          } catch(err) {
-              alert('Invalid JSON file.');
+              const data: unknown = JSON.parse(ev.target?.result as string);
+              setCast(parseCast(data));
+          } catch (err) {
+              alert(`Invalid cast file. ${err instanceof SyntaxError || !(err instanceof Error) ? 'Expected a JSON array of { name, aliases } entries.' : err.message}`);
           }
       };
       reader.readAsText(file);
   };
 
-  const handleRegenerate = async () => {
-      const current = images[qcIndex];
-      if (!current || !backendUrl) return;
-      
-      setIsRegenerating(true);
-      try {
-          const detectedChars = detectCharactersFromPrompt(current.prompt);
-          const charsWithOverride = detectedChars.map(c => ({
-              name: c.name,
-              outfit: outfitOverride[c.name] || c.outfit
-          }));
-
-          // Mock fetch for demo if backend not present
-          // In real app: await fetch(`${backendUrl}/api/regenerate` ...)
-          await new Promise(r => setTimeout(r, 2000)); 
-          
-          // For demo, we just use the same URL to show the UI state
-          // In reality, this would be `data.new_image_base64`
-          const newUrl = current.url; 
-          
-          const updated = [...images];
-          updated[qcIndex] = {
-              ...current,
-              oldUrl: current.url, // Keep old for comparison
-              url: newUrl, // New image
-              status: 'pending'
-          };
-          setImages(updated);
-          setCompareMode(true);
-          
-      } catch (e) {
-          alert("Regeneration failed (Check backend connection)");
-      } finally {
-          setIsRegenerating(false);
-      }
+  const updateOutfit = (id: string, patch: Partial<Outfit>) => {
+      setOutfits(prev => prev.map(o => o.id === id ? { ...o, ...patch } : o));
   };
 
-  // --- Render Functions ---
+  const handleAddOutfit = () => {
+      const id = `outfit_${Date.now().toString(36)}`;
+      setOutfits(prev => [...prev, { id, label: 'New Outfit', icon: '👗', keywords: [], promptTokens: '', characters: [] }]);
+  };
 
-  const renderDashboard = () => (
-    <div className="p-8 max-w-7xl mx-auto h-full overflow-y-auto">
-        <div className="flex items-center justify-between mb-8">
-            <h2 className="text-3xl font-bold text-white">Production Overview</h2>
-            <div className="text-sm text-muted bg-surface px-3 py-1 rounded-full border border-border">
-                {new Date().toLocaleDateString()}
-            </div>
-        </div>
-        
-        <div className="grid grid-cols-4 gap-6 mb-8">
-            <div className="bg-surface border border-border p-6 rounded-xl hover:border-border/80 transition-colors">
-                <div className="flex items-center justify-between mb-4">
-                     <div className="text-muted text-xs font-bold uppercase tracking-wider">Total Assets</div>
-                     <FolderOpen size={16} className="text-muted" />
-                </div>
-                <div className="text-4xl font-bold text-white">{stats.total}</div>
-                <div className="text-xs text-muted mt-2">Active in pipeline</div>
-            </div>
-            <div className="bg-surface border border-border p-6 rounded-xl hover:border-success/50 transition-colors">
-                <div className="flex items-center justify-between mb-4">
-                     <div className="text-success/80 text-xs font-bold uppercase tracking-wider">Approved</div>
-                     <CheckCircle2 size={16} className="text-success" />
-                </div>
-                <div className="text-4xl font-bold text-success">{stats.approved}</div>
-                <div className="text-xs text-muted mt-2">Ready for deployment</div>
-            </div>
-            <div className="bg-surface border border-border p-6 rounded-xl hover:border-danger/50 transition-colors">
-                <div className="flex items-center justify-between mb-4">
-                     <div className="text-danger/80 text-xs font-bold uppercase tracking-wider">Rejected</div>
-                     <XCircle size={16} className="text-danger" />
-                </div>
-                <div className="text-4xl font-bold text-danger">{stats.rejected}</div>
-                <div className="text-xs text-muted mt-2">Requires attention</div>
-            </div>
-            <div className="bg-surface border border-border p-6 rounded-xl hover:border-warning/50 transition-colors">
-                <div className="flex items-center justify-between mb-4">
-                     <div className="text-warning/80 text-xs font-bold uppercase tracking-wider">Pending QC</div>
-                     <RefreshCcw size={16} className="text-warning" />
-                </div>
-                <div className="text-4xl font-bold text-warning">{stats.pending}</div>
-                <div className="text-xs text-muted mt-2">Awaiting review</div>
-            </div>
-        </div>
+  const toggleOutfitCharacter = (outfit: Outfit, memberId: string) => {
+      const characters = outfit.characters.includes(memberId)
+          ? outfit.characters.filter(id => id !== memberId)
+          : [...outfit.characters, memberId];
+      updateOutfit(outfit.id, { characters });
+  };
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="bg-surface border border-border rounded-xl p-6">
-                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                    <div className="p-1.5 bg-primary/10 rounded-md">
-                        <Upload size={18} className="text-primary"/> 
-                    </div>
-                    Quick Import
-                </h3>
-                <div className="grid grid-cols-2 gap-4">
-                    <label className="group flex flex-col items-center justify-center p-8 border border-dashed border-border rounded-xl hover:border-primary hover:bg-surfaceHighlight cursor-pointer transition-all">
-                        <div className="w-12 h-12 rounded-full bg-surfaceHighlight group-hover:bg-primary/20 flex items-center justify-center mb-3 transition-colors">
-                            <FileText size={24} className="text-muted group-hover:text-primary transition-colors" />
-                        </div>
-                        <span className="text-sm font-medium text-white">Upload JSON Prompt</span>
-                        <span className="text-xs text-muted mt-1">Populate scene data</span>
-                        <input type="file" accept=".json" className="hidden" onChange={handleJSONUpload} />
-                    </label>
-                    <label className="group flex flex-col items-center justify-center p-8 border border-dashed border-border rounded-xl hover:border-primary hover:bg-surfaceHighlight cursor-pointer transition-all">
-                        <div className="w-12 h-12 rounded-full bg-surfaceHighlight group-hover:bg-primary/20 flex items-center justify-center mb-3 transition-colors">
-                            <ImageIcon size={24} className="text-muted group-hover:text-primary transition-colors" />
-                        </div>
-                        <span className="text-sm font-medium text-white">Upload Images</span>
-                        <span className="text-xs text-muted mt-1">Batch import scenes</span>
-                        <input type="file" multiple accept="image/*" className="hidden" onChange={handleImageUpload} />
-                    </label>
-                </div>
-            </div>
+  const updateLocation = (id: string, patch: Partial<SceneLocation>) => {
+      setLocations(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+  };
 
-            <div className="bg-surface border border-border rounded-xl p-6">
-                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                    <div className="p-1.5 bg-surfaceHighlight rounded-md">
-                        <Settings size={18} className="text-muted"/> 
-                    </div>
-                    System Status
-                </h3>
-                <div className="space-y-4">
-                    <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
+  // "School Rooftop" -> "school_rooftop", the form the backend expects as a setting
+  const locationIdFor = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  const isLocationTaken = (id: string) => id === GENERIC_LOCATION || locations.some(l => l.id === id);
+
+  const handleAddLocation = () => {
+      const id = locationIdFor(newLocationId);
+      if (!id || isLocationTaken(id)) return;
+      setLocations(prev => [...prev, { id, label: id.replace(/_/g, ' '), keywords: [], priority: 0 }]);
+      setNewLocationId('');
+  };
+
+  const handleRemoveLocation = (id: string) => {
+      setLocations(prev => prev.filter(l => l.id !== id).map(l => l.parentId === id ? { ...l, parentId: undefined } : l));
+  };
+
+  // Re-runs prompt matching with the draft rules; prompts the reviewer already edited are left alone
+  const handleApplyMatching = () => {
+    const index = indexPrompts(promptData, matchingDraft);
+    const rematched = new Map<number, string>();
+    images.forEach(img => {
+        const prompt = promptFor(img.name, index, matchingDraft);
+        if (prompt && img.prompt === img.originalPrompt && prompt !== img.prompt) rematched.set(img.id, prompt);
+    });
+    setMatching(matchingDraft);
+    setImages(prev => prev.map(img => rematched.has(img.id) ? { ...img, prompt: rematched.get(img.id)!, originalPrompt: rematched.get(img.id)! } : img));
+    alert(`Matching rules applied. ${rematched.size} prompt${rematched.size === 1 ? '' : 's'} updated.`);
+  };
+
+  const updateScheme = (id: string, patch: Partial<MatchScheme>) => {
+    setMatchingDraft(prev => ({ ...prev, schemes: prev.schemes.map(s => s.id === id ? { ...s, ...patch } : s) }));
+  };
+
+  const moveScheme = (id: string, delta: number) => {
+    setMatchingDraft(prev => {
+        const schemes = [...prev.schemes];
+        const from = schemes.findIndex(s => s.id === id);
+        const to = from + delta;
+        if (to < 0 || to >= schemes.length) return prev;
+        [schemes[from], schemes[to]] = [schemes[to], schemes[from]];
+        return { ...prev, schemes };
+    });
+  };
+
+  // Manual assignments win over filename matching
+  const promptFor = (name: string, index: Map<string, string>, config = matching, assignments = promptAssignments): string | null => {
+    const assigned = assignments[name];
+    if (assigned !== undefined) return splitPromptEntry(assigned, config).prompt;
+    return matchPromptToImage(name, index, config);
+  };
+
+  const handleAssignPrompt = (imageName: string, entry: PromptEntry | null) => {
+    const assignments = { ...promptAssignments };
+    if (entry) assignments[imageName] = entry.outputAi;
+    else delete assignments[imageName];
+    setPromptAssignments(assignments);
+    const prompt = promptFor(imageName, indexPrompts(promptData, matching), matching, assignments) || PROMPT_PLACEHOLDER;
+    setImages(prev => prev.map(img => img.name === imageName ? { ...img, prompt, originalPrompt: prompt } : img));
+  };
+
+  const toggleContinuityAck = (id: string) => {
+    setContinuityAcks(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]);
+  };
+
+  const jumpToImage = (id: number) => {
+    const idx = images.findIndex(img => img.id === id);
+    if (idx < 0) return;
+    setQcIndex(idx);
+    setQcTab('cg');
+    setCompareMode(false);
+    setCurrentView('qc');
+  };
+
+  const describeContinuity = (w: ContinuityWarning) => w.kind === 'setting'
+    ? `Setting jumps from ${w.from} to ${w.to}`
+    : `${w.subject} changes from ${outfitLabel(outfits, w.from)} to ${outfitLabel(outfits, w.to)}`;
+
+  // Plain click reviews one image; ctrl/cmd toggles it into the selection, shift selects the queue range from the anchor
+  const handleQueueClick = (e: React.MouseEvent, img: QCImage, idx: number) => {
+    if (e.shiftKey && selectionAnchor !== null) {
+        const from = order.indexOf(images.findIndex(i => i.id === selectionAnchor));
+        const to = order.indexOf(idx);
+        if (from >= 0 && to >= 0) {
+            const range = order.slice(Math.min(from, to), Math.max(from, to) + 1).map(i => images[i].id);
+            setSelectedIds(prev => Array.from(new Set([...prev, ...range])));
+            return;
+        }
+    }
+    if (e.ctrlKey || e.metaKey) {
+        // The image being reviewed joins the selection too, so ctrl-clicking a second one selects both
+        const base = selectedIds.length === 0 && images[qcIndex] ? [images[qcIndex].id] : selectedIds;
+        setSelectedIds(base.includes(img.id) ? base.filter(id => id !== img.id) : [...base, img.id]);
+        setSelectionAnchor(img.id);
+        return;
+    }
+    setSelectedIds([]);
+    setSelectionAnchor(img.id);
+    setQcIndex(idx);
+    setCompareMode(false);
+    setCompareIds({ base: null, target: null });
+  };
+
+  const planBulk = (action: BulkAction): BulkPlan => planBulkAction(
+    images.filter(img => selectedIds.includes(img.id)),
+    action,
+    { charactersOf: img => resolveCharacters(img.prompt, img.outfitOverride), retryQueue }
+  );
+
+  const handleConfirmReject = (rejection: Rejection) => {
+    if (rejectTarget === 'current') setImageStatus('rejected', rejection);
+    else setBulkAction({ kind: 'status', status: 'rejected', rejection });
+    setRejectTarget(null);
+  };
+
+  // What the artist needs to know about the last rejection, with reason ids resolved to labels
+  const rejectionSummary = (img: QCImage) =>
+    img.rejection ? { reasons: reasonLabels(img.rejection, rejectionReasons), note: img.rejection.note } : undefined;
+
+  const handleApplyBulk = (plan: BulkPlan) => {
+    if (plan.action.kind === 'retry') {
+        plan.changes.forEach(c => enqueueRetry(c.img.id, 'rejected'));
+    } else {
+        const action = plan.action;
+        const events = action.kind === 'status' ? plan.changes.map(c => qcEventFor({ ...c.img, ...c.after }, action.status)) : [];
+        recordUndo({
+            kind: 'bulk',
+            label: `${plan.label} · ${plan.changes.length} images`,
+            before: {},
+            after: {},
+            patches: plan.changes.map(c => ({ imageId: c.img.id, before: c.before, after: c.after })),
+            events
+        });
+        const byId = new Map(plan.changes.map(c => [c.img.id, c.after]));
+        setImages(prev => prev.map(img => byId.has(img.id) ? { ...img, ...byId.get(img.id) } : img));
+        if (action.kind === 'status') plan.changes.forEach(c => syncRetryForStatus(c.img.id, action.status));
+        logQcEvents(events);
+    }
+    setBulkAction(null);
+    setSelectedIds([]);
+  };
+
+  const toggleQueueFilter = (key: Exclude<keyof QueueFilter, 'search'>, value: string) => {
+    setQueueFilter(f => {
+        const current = f[key] as string[];
+        return { ...f, [key]: current.includes(value) ? current.filter(v => v !== value) : [...current, value] };
+    });
+  };
+
+  const handleClearSession = async () => {
+    if (!confirm('Clear the saved QC session? All images, prompts and review decisions will be removed from this browser.')) return;
+    try {
+        await clearSession();
+    } catch (err) {
+        setSessionError(`Could not clear session: ${err instanceof Error ? err.message : err}`);
+        return;
+    }
+    setImages([]);
+    setPromptData([]);
+    setOutfitOverride({});
+    setBackgrounds([]);
+    setAudioCues([]);
+    setRetryQueue([]);
+    setPromptAssignments({});
+    setContinuityAcks([]);
+    setQcEvents([]);
+    setUndoStack([]);
+    setRedoStack([]);
+    setQcIndex(0);
+    setBgIndex(0);
+    setCompareMode(false);
+    setExtractionResult(null);
+  };
+
+  const settingOf = (img: QCImage) => img.setting || detectSettingFromPrompt(img.prompt, locations);
+
+  const setImageSetting = (setting: string | undefined) => {
+    const current = images[qcIndex];
+    if (!current || current.setting === setting) return;
+    recordUndo({
+        kind: 'setting',
+        label: `Setting → ${setting || 'auto'} · ${current.name}`,
+        imageId: current.id,
+        before: { setting: current.setting },
+        after: { setting }
+    });
+    setImages(prev => prev.map(img => img.id === current.id ? { ...img, setting } : img));
+  };
+
+  // A shot's own overrides win over the session-wide ones, including an explicit 'default'
+  const overridesFor = (own?: Record<string, string>): Record<string, string> => ({ ...outfitOverride, ...own });
+
+  const resolveCharacters = (prompt: string, own?: Record<string, string>): Character[] => {
+    const overrides = overridesFor(own);
+    return detectCharactersFromPrompt(prompt, cast, outfits).map(c => {
+        const outfit = overrides[c.name] && overrides[c.name] !== DEFAULT_OUTFIT ? overrides[c.name] : c.outfit;
+        const tokens = outfits.find(o => o.id === outfit)?.promptTokens;
+        return tokens ? { name: c.name, outfit, outfitTokens: tokens } : { name: c.name, outfit };
+    });
+  };
+
+  // The subset of outfit overrides that actually applies to this prompt
+  const activeOverrides = (prompt: string, own?: Record<string, string>): Record<string, string> => {
+    const overrides = overridesFor(own);
+    const picked: Record<string, string> = {};
+    detectCharactersFromPrompt(prompt, cast, outfits).forEach(c => {
+        if (overrides[c.name] && overrides[c.name] !== 'default') picked[c.name] = overrides[c.name];
+    });
+    return picked;
+  };
+
+  // --- QC Events ---
+
+  // Facets are read when the event happens; see QCEvent
+  const qcEventFor = (img: QCImage, kind: QCEvent['kind']): QCEvent => {
+    const characters = resolveCharacters(img.prompt, img.outfitOverride);
+    const now = Date.now();
+    return {
+        id: `e_${now}_${Math.random().toString(36).slice(2, 6)}`,
+        at: now,
+        imageId: img.id,
+        kind,
+        characters: characters.map(c => c.name),
+        outfits: characters.map(c => c.outfit),
+        setting: settingOf(img),
+        chapter: chapterIdOf(img, matching),
+        regenerations: img.history.filter(v => v.source === 'regenerate').length,
+        ...(kind === 'rejected' && img.rejection ? { reasons: img.rejection.reasons } : {})
+    };
+  };
+
+  const logQcEvents = (events: QCEvent[]) => setQcEvents(prev => [...prev, ...events]);
+
+  // Undo takes an action's events back out of the log and redo restores them, so
+  // undo/redo cycles never count as extra reviews
+  const unlogQcEvents = (events: QCEvent[]) => {
+    const ids = new Set(events.map(e => e.id));
+    setQcEvents(prev => prev.filter(e => !ids.has(e.id)));
+  };
+
+  // --- Undo / Redo ---
+
+  const recordUndo = (entry: Omit<UndoEntry, 'id' | 'at'>, coalesce = false) => {
+    const now = Date.now();
+    setUndoStack(prev => {
+        const top = prev[prev.length - 1];
+        if (coalesce && top && top.kind === entry.kind && top.imageId === entry.imageId && now - top.at < UNDO_COALESCE_MS) {
+            return [...prev.slice(0, -1), { ...top, after: entry.after, at: now }];
+        }
+        return [...prev.slice(-(UNDO_LIMIT - 1)), { ...entry, id: `u_${now}_${Math.random().toString(36).slice(2, 6)}`, at: now }];
+    });
+    setRedoStack([]);
+  };
+
+  // Rejected images belong in the retry queue; anything else comes out of it
+  const syncRetryForStatus = (imageId: number, status: QCImage['status']) => {
+    if (status === 'rejected') enqueueRetry(imageId, 'rejected');
+    else setRetryQueue(prev => prev.filter(r => r.imageId !== imageId || r.state === 'running'));
+  };
+
+  // A regeneration is undone by taking out just its version, so versions added
+  // later (e.g. by a retry batch) survive; the old active one only comes back if
+  // the undone version is still the one showing
+  const applyImagePatch = (img: QCImage, entry: UndoEntry, patch: ImagePatch, direction: 'undo' | 'redo'): QCImage => {
+    const version = entry.version;
+    if (!version) return { ...img, ...patch };
+    if (direction === 'undo') {
+        const history = img.history.filter(v => v.id !== version.id);
+        return img.activeVersionId === version.id ? { ...img, ...patch, history } : { ...img, history };
+    }
+    return { ...img, ...patch, history: img.history.some(v => v.id === version.id) ? img.history : [...img.history, version] };
+  };
+
+  const applyUndoEntry = (entry: UndoEntry, direction: 'undo' | 'redo') => {
+    const patch: ImagePatch = direction === 'undo' ? entry.before : entry.after;
+    const overrides = direction === 'undo' ? entry.outfitBefore : entry.outfitAfter;
+    if (entry.imageId !== undefined && Object.keys(patch).length > 0) {
+        setImages(prev => prev.map(img => img.id === entry.imageId ? applyImagePatch(img, entry, patch, direction) : img));
+        if (patch.status) syncRetryForStatus(entry.imageId, patch.status);
+        const idx = images.findIndex(img => img.id === entry.imageId);
+        if (idx >= 0) setQcIndex(idx);
+    }
+    if (entry.patches) {
+        const byId = new Map(entry.patches.map(p => [p.imageId, direction === 'undo' ? p.before : p.after]));
+        setImages(prev => prev.map(img => byId.has(img.id) ? { ...img, ...byId.get(img.id) } : img));
+        byId.forEach((p, imageId) => { if (p.status) syncRetryForStatus(imageId, p.status); });
+    }
+    if (entry.events) {
+        if (direction === 'undo') unlogQcEvents(entry.events);
+        else logQcEvents(entry.events);
+    }
+    if (overrides) setOutfitOverride(p => ({ ...p, ...overrides }));
+    setCompareMode(false);
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    applyUndoEntry(entry, 'undo');
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, entry]);
+  };
+
+  const handleRedo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    applyUndoEntry(entry, 'redo');
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, entry]);
+  };
+
+  const updateImagePrompt = (target: QCImage, prompt: string, label: string, coalesce: boolean) => {
+    if (target.prompt === prompt) return;
+    recordUndo({ kind: 'prompt', label: `${label} · ${target.name}`, imageId: target.id, before: { prompt: target.prompt }, after: { prompt } }, coalesce);
+    setImages(prev => prev.map(img => img.id === target.id ? { ...img, prompt } : img));
+  };
+
+  const updateCurrentPrompt = (prompt: string, label: string, coalesce: boolean) => {
+    const current = images[qcIndex];
+    if (current) updateImagePrompt(current, prompt, label, coalesce);
+  };
+
+  const handleExportEditedPrompts = () => {
+    const { entries, updated, appended } = buildEditedPromptJson(promptData, images, matching, promptAssignments);
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `prompts_edited_${new Date().toISOString().slice(0, 10)}.json`);
+    const skipped = images.filter(isPromptEdited).length - updated - appended;
+    if (skipped > 0) alert(`${skipped} edited prompt${skipped === 1 ? ' has' : 's have'} no chapter key and could not be exported.`);
+  };
+
+  const setCharacterOutfit = (name: string, outfit: string) => {
+    const current = images[qcIndex];
+    // A shot with its own outfit for this character keeps editing that one
+    if (current?.outfitOverride?.[name]) {
+        const own = { ...current.outfitOverride, [name]: outfit };
+        recordUndo({
+            kind: 'outfit',
+            label: `${name} → ${outfit} · ${current.name}`,
+            imageId: current.id,
+            before: { outfitOverride: current.outfitOverride },
+            after: { outfitOverride: own }
+        });
+        setImages(prev => prev.map(img => img.id === current.id ? { ...img, outfitOverride: own } : img));
+        return;
+    }
+    recordUndo({
+        kind: 'outfit',
+        label: `${name} → ${outfit}`,
+        imageId: current?.id,
+        before: {},
+        after: {},
+        outfitBefore: { [name]: outfitOverride[name] || 'default' },
+        outfitAfter: { [name]: outfit }
+    });
+    setOutfitOverride(p => ({ ...p, [name]: outfit }));
+  };
+
+  const handleRevertVersion = (imageId: number, versionId: string) => {
+    const img = images.find(i => i.id === imageId);
+    const version = img?.history.find(v => v.id === versionId);
+    if (!img || !version) return;
+    // Bring back the outfits that produced this version
+    const resetOverrides: Record<string, string> = {};
+    const previousOverrides: Record<string, string> = {};
+    detectCharactersFromPrompt(version.prompt, cast, outfits).forEach(c => {
+        resetOverrides[c.name] = version.outfitOverride[c.name] || 'default';
+        previousOverrides[c.name] = outfitOverride[c.name] || 'default';
+    });
+    const event = qcEventFor({ ...img, prompt: version.prompt, status: 'pending' }, 'pending');
+    recordUndo({
+        kind: 'revert',
+        label: `Revert to v${img.history.indexOf(version) + 1} · ${img.name}`,
+        imageId,
+        before: { url: img.url, activeVersionId: img.activeVersionId, prompt: img.prompt, status: img.status },
+        after: { url: version.url, activeVersionId: version.id, prompt: version.prompt, status: 'pending' },
+        outfitBefore: previousOverrides,
+        outfitAfter: resetOverrides,
+        events: [event]
+    });
+    setImages(prev => prev.map(i => i.id === imageId ? {
+        ...i,
+        url: version.url,
+        activeVersionId: version.id,
+        prompt: version.prompt,
+        status: 'pending'
+    } : i));
+    setOutfitOverride(p => ({ ...p, ...resetOverrides }));
+    logQcEvents([event]);
+    setCompareMode(false);
+  };
+
+  const handlePickCompareVersion = (versionId: string, slot: 'base' | 'target') => {
+    setCompareIds(p => ({ ...p, [slot]: versionId }));
+    setCompareMode(true);
+  };
+
+  const handleDownloadApproved = async () => {
+    const approved = images.filter(i => i.status === 'approved');
+    if (!approved.length) {
+        alert("No approved images to download.");
+        return;
+    }
+
+    const entries: ExportEntry[] = approved.map(img => {
+        const key = parseFileKey(img.name, matching);
+        return {
+            name: img.name,
+            url: img.url,
+            chapter: key?.chapter ?? null,
+            scene: key?.scene ?? null,
+            prompt: img.prompt,
+            originalPrompt: img.originalPrompt,
+            characters: resolveCharacters(img.prompt, img.outfitOverride),
+            setting: settingOf(img),
+            rejection: rejectionSummary(img) ?? null
+        };
+    });
+
+    setExportProgress({ done: 0, total: entries.length });
+    try {
+        const zip = await buildExportZip(entries, (done, total) => setExportProgress({ done, total }));
+        downloadBlob(zip, `approved_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+        alert(`Export failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+        setExportProgress(null);
+    }
+  };
+
+  const enqueueRetry = (imageId: number, reason: RetryItem['reason'], error?: string) => {
+    setRetryQueue(prev => {
+        const existing = prev.find(r => r.imageId === imageId);
+        if (existing?.state === 'running') return prev;
+        const item: RetryItem = { imageId, reason, state: 'queued', attempts: 0, error, updatedAt: Date.now() };
+        return existing ? prev.map(r => r.imageId === imageId ? item : r) : [...prev, item];
+    });
+  };
+
+  const setImageStatus = (status: QCImage['status'], rejection?: Rejection) => {
+    const current = images[qcIndex];
+    if (!current) return;
+    const before: ImagePatch = rejection ? { status: current.status, rejection: current.rejection } : { status: current.status };
+    const after: ImagePatch = rejection ? { status, rejection } : { status };
+    const event = qcEventFor({ ...current, ...after }, status);
+    recordUndo({
+        kind: 'status',
+        label: `${status === 'approved' ? 'Approve' : status === 'rejected' ? 'Reject' : 'Reset'} · ${current.name}`,
+        imageId: current.id,
+        before,
+        after,
+        events: [event]
+    });
+    setImages(prev => prev.map(img => img.id === current.id ? { ...img, ...after } : img));
+    logQcEvents([event]);
+    syncRetryForStatus(current.id, status);
+    stepQueue(1);
+  };
+
+  // The retry batch outlives the render that started it; workers read the live state through these
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  const retryQueueRef = useRef(retryQueue);
+  retryQueueRef.current = retryQueue;
+
+  const handleRunRetryBatch = async () => {
+    const targets = retryQueue.filter(r => r.state === 'queued' || r.state === 'failed');
+    if (!targets.length || !backendUrl) return;
+
+    const controller = new AbortController();
+    retryAbortRef.current = controller;
+    setIsRetryRunning(true);
+
+    const updateItem = (imageId: number, patch: Partial<RetryItem>) =>
+        setRetryQueue(prev => prev.map(r => r.imageId === imageId ? { ...r, ...patch, updatedAt: Date.now() } : r));
+
+    await runWithConcurrency(targets, retrySettings.concurrency, async item => {
+        // Approved, reset or regenerated by hand since the batch started
+        const live = retryQueueRef.current.find(r => r.imageId === item.imageId);
+        if (!live || (live.state !== 'queued' && live.state !== 'failed')) return;
+        const img = imagesRef.current.find(i => i.id === item.imageId);
+        if (!img) {
+            updateItem(item.imageId, { state: 'failed', error: 'Image is no longer in the session.' });
+            return;
+        }
+
+        updateItem(item.imageId, { state: 'running', error: undefined });
+        try {
+            const result = await withRetry(
+                () => regenerateImage(backendUrl, {
+                    name: img.name,
+                    prompt: img.prompt,
+                    characters: resolveCharacters(img.prompt, img.outfitOverride),
+                    setting: settingOf(img),
+                    rejection: rejectionSummary(img)
+                }, { signal: controller.signal }),
+                retrySettings,
+                {
+                    signal: controller.signal,
+                    shouldRetry: isRetryableError,
+                    onAttempt: attempts => updateItem(item.imageId, { attempts })
+                }
+            );
+            const version = createVersion(result.url, img.prompt, activeOverrides(img.prompt, img.outfitOverride), 'regenerate');
+            setImages(prev => prev.map(i => i.id === img.id ? pushVersion(i, version) : i));
+            logQcEvents([qcEventFor(pushVersion(img, version), 'regenerated')]);
+            updateItem(item.imageId, { state: 'succeeded' });
+        } catch (err) {
+            if (controller.signal.aborted) {
+                updateItem(item.imageId, { state: 'queued' });
+            } else {
+                const message = err instanceof BackendError ? `${err.code}: ${err.message}` : String(err);
+                updateItem(item.imageId, { state: 'failed', error: message });
+            }
+        }
+    }, controller.signal);
+
+    // Items the cancelled batch never reached are still queued
+    retryAbortRef.current = null;
+    setIsRetryRunning(false);
+  };
+
+  const handleRegenerate = async () => {
+      const current = images[qcIndex];
+      if (!current || !backendUrl) return;
+      
+      setIsRegenerating(true);
+      setRegenError(null);
+      const controller = new AbortController();
+      regenAbortRef.current = controller;
+      try {
+          const charsWithOverride = resolveCharacters(current.prompt, current.outfitOverride);
+
+          const result = await regenerateImage(backendUrl, {
+              name: current.name,
+              prompt: current.prompt,
+              characters: charsWithOverride,
+              setting: settingOf(current),
+              rejection: rejectionSummary(current)
+          }, { signal: controller.signal });
+
+          const version = createVersion(result.url, current.prompt, activeOverrides(current.prompt, current.outfitOverride), 'regenerate');
+          const regenerated = pushVersion(current, version);
+          const event = qcEventFor(regenerated, 'regenerated');
+          recordUndo({
+              kind: 'regenerate',
+              label: `Regenerate · ${current.name}`,
+              imageId: current.id,
+              before: { url: current.url, activeVersionId: current.activeVersionId, status: current.status },
+              after: { url: regenerated.url, activeVersionId: regenerated.activeVersionId, status: regenerated.status },
+              version,
+              events: [event]
+          });
+          // Functional update: the reviewer may have moved on while we waited
+          setImages(prev => prev.map(img => img.id === current.id ? pushVersion(img, version) : img));
+          logQcEvents([event]);
+          // Back in review, so a queued retry would only regenerate it again
+          syncRetryForStatus(current.id, regenerated.status);
+          setCompareIds({ base: current.activeVersionId, target: version.id });
+          setCompareMode(true);
+          
+      } catch (e) {
+          if (!(e instanceof BackendError && e.code === 'cancelled')) {
+              const error = e instanceof BackendError ? e : new BackendError('unknown', 'Regeneration failed.');
+              setRegenError(error);
+              enqueueRetry(current.id, 'failed', `${error.code}: ${error.message}`);
+          }
+      } finally {
+          regenAbortRef.current = null;
+          setIsRegenerating(false);
+      }
+  };
+
+  const handleRegenerateBackground = async () => {
+      const current = backgrounds[bgIndex];
+      if (!current || !backendUrl) return;
+
+      setIsRegenerating(true);
+      setRegenError(null);
+      const controller = new AbortController();
+      regenAbortRef.current = controller;
+      try {
+          const result = await regenerateImage(backendUrl, {
+              name: current.name,
+              prompt: current.prompt,
+              characters: [],
+              setting: current.locationId
+          }, { signal: controller.signal });
+
+          setBackgrounds(prev => prev.map(bg => bg.id === current.id ? {
+              ...bg,
+              oldUrl: bg.url,
+              url: result.url,
+              status: 'pending'
+          } : bg));
+          if (current.url) setCompareMode(true);
+      } catch (e) {
+          if (!(e instanceof BackendError && e.code === 'cancelled')) {
+              setRegenError(e instanceof BackendError ? e : new BackendError('unknown', 'Regeneration failed.'));
+          }
+      } finally {
+          regenAbortRef.current = null;
+          setIsRegenerating(false);
+      }
+  };
+
+  const setBackgroundStatus = (status: QCBackground['status']) => {
+      const updated = [...backgrounds];
+      updated[bgIndex] = { ...updated[bgIndex], status };
+      setBackgrounds(updated);
+      if (bgIndex < backgrounds.length - 1) setBgIndex(bgIndex + 1);
+  };
+
+  const resetCurrentPrompt = () => {
+    const current = images[qcIndex];
+    if (current) updateCurrentPrompt(current.originalPrompt, 'Reset prompt', false);
+  };
+
+  const resetBackgroundPrompt = () => {
+    const current = backgrounds[bgIndex];
+    if (!current) return;
+    setBackgrounds(prev => prev.map(bg => bg.id === current.id ? { ...bg, prompt: bg.originalPrompt } : bg));
+  };
+
+  // Re-pointed every render so the global listener always sees fresh state
+  const hotkeyHandlers = useRef<Partial<Record<HotkeyAction, () => void>>>({});
+  hotkeyHandlers.current = currentView !== 'qc' ? {} : qcTab === 'cg' ? {
+    approve: () => images[qcIndex] && setImageStatus('approved'),
+    reject: () => images[qcIndex] && setRejectTarget('current'),
+    regenerate: () => !isRegenerating && !backendOffline && handleRegenerate(),
+    compare: () => (images[qcIndex]?.history.length ?? 0) > 1 && setCompareMode(m => !m),
+    next: () => stepQueue(1),
+    prev: () => stepQueue(-1),
+    resetPrompt: resetCurrentPrompt
+  } : {
+    approve: () => backgrounds[bgIndex]?.url && setBackgroundStatus('approved'),
+    reject: () => backgrounds[bgIndex] && setBackgroundStatus('rejected'),
+    regenerate: () => !isRegenerating && !backendOffline && backgrounds[bgIndex]?.prompt && handleRegenerateBackground(),
+    compare: () => backgrounds[bgIndex]?.oldUrl && setCompareMode(m => !m),
+    next: () => { setBgIndex(i => Math.min(backgrounds.length - 1, i + 1)); setCompareMode(false); },
+    prev: () => { setBgIndex(i => Math.max(0, i - 1)); setCompareMode(false); },
+    resetPrompt: resetBackgroundPrompt
+  };
+
+  const historyHandlers = useRef({ undo: handleUndo, redo: handleRedo });
+  historyHandlers.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    if (showCheatSheet || importPreview || bulkAction || rejectTarget) return; // Dialogs own the keyboard while open
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Let the textarea keep its native text undo
+      if (isTypingTarget(e.target)) return;
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      if (currentView === 'qc' && qcTab === 'cg') {
+        if (UNDO_SHORTCUTS.undo.includes(combo)) { e.preventDefault(); historyHandlers.current.undo(); return; }
+        if (UNDO_SHORTCUTS.redo.includes(combo)) { e.preventDefault(); historyHandlers.current.redo(); return; }
+      }
+      if (e.repeat) return;
+      if (combo === CHEAT_SHEET_KEY && currentView === 'qc') {
+        e.preventDefault();
+        setShowCheatSheet(true);
+        return;
+      }
+      const action = findAction(hotkeys, combo);
+      const handler = action && hotkeyHandlers.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [hotkeys, showCheatSheet, importPreview, bulkAction, rejectTarget, currentView, qcTab]);
+
+  // --- Render Functions ---
+
+  const renderAnalytics = () => {
+    const days = reviewsPerDay(qcEvents);
+    const dayMax = Math.max(1, ...days.map(d => d.approved + d.rejected));
+    const decisions = latestDecisions(qcEvents);
+    const rates = approvalRates(decisions, analyticsFacet);
+    const regen = averageRegenerations(decisions);
+    const reasons = rejectionReasonCounts(qcEvents);
+    const reasonMax = Math.max(1, ...reasons.map(r => r.count));
+    const facetLabel = (key: string) =>
+        analyticsFacet === 'outfit' ? outfitLabel(outfits, key)
+        : analyticsFacet === 'setting' ? locations.find(l => l.id === key)?.label ?? key
+        : analyticsFacet === 'chapter' ? (key === 'unsorted' ? 'Unsorted' : `Chapter ${key}`)
+        : key;
+
+    return (
+        <>
+            <h3 className="text-xs font-bold text-muted uppercase tracking-wider mb-3 flex items-center gap-2">
+                <BarChart3 size={14} /> Analytics
+                <span className="normal-case font-normal tracking-normal">· {qcEvents.length} QC events this session</span>
+            </h3>
+            <div className="grid grid-cols-3 gap-6 mb-6">
+                <div className="col-span-2 bg-surface border border-border rounded-xl p-5">
+                    <div className="flex items-center justify-between mb-4 text-xs">
+                        <span className="font-bold text-white">Reviews per day</span>
+                        <span className="text-muted"><span className="text-success">■</span> approved <span className="text-danger ml-2">■</span> rejected</span>
+                    </div>
+                    <div className="h-32 flex items-end gap-1.5">
+                        {days.map(d => (
+                            <div key={d.day} className="flex-1 h-full flex flex-col justify-end" title={`${d.day}: ${d.approved} approved, ${d.rejected} rejected`}>
+                                <div className="bg-danger/80 rounded-t-sm" style={{ height: `${(d.rejected / dayMax) * 100}%` }} />
+                                <div className={`bg-success/80 ${d.rejected ? '' : 'rounded-t-sm'}`} style={{ height: `${(d.approved / dayMax) * 100}%` }} />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex gap-1.5 mt-1.5 text-[9px] text-muted font-mono">
+                        {days.map(d => <span key={d.day} className="flex-1 text-center">{d.day.slice(8)}</span>)}
+                    </div>
+                </div>
+                <StatCard
+                    label="Regenerations / Approval"
+                    value={Math.round(regen.average * 10) / 10}
+                    caption={`Average over ${regen.approved} approved image${regen.approved === 1 ? '' : 's'}`}
+                    icon={RefreshCcw}
+                    tone={regen.average > 2 ? 'warning' : 'neutral'}
+                />
+            </div>
+            <div className="grid grid-cols-2 gap-6 mb-8">
+                <div className="bg-surface border border-border rounded-xl p-5">
+                    <div className="flex items-center justify-between mb-4 text-xs">
+                        <span className="font-bold text-white">Approval rate</span>
+                        <div className="flex gap-1">
+                            {(['character', 'outfit', 'setting', 'chapter'] as AnalyticsFacet[]).map(facet => (
+                                <button
+                                    key={facet}
+                                    onClick={() => setAnalyticsFacet(facet)}
+                                    className={`px-2 py-0.5 rounded-full border text-[10px] capitalize transition-colors ${analyticsFacet === facet ? 'bg-primary/20 border-primary/40 text-primary' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                                >
+                                    {facet}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {rates.length === 0 && <div className="text-xs text-muted italic">No decisions yet.</div>}
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {rates.map(r => (
+                            <div key={r.key} className="flex items-center gap-3 text-xs">
+                                <span className="w-32 truncate text-gray-300" title={facetLabel(r.key)}>{facetLabel(r.key)}</span>
+                                <div className="flex-1 h-2 rounded-full bg-danger/30 overflow-hidden">
+                                    <div className="bg-success h-full" style={{ width: `${r.rate * 100}%` }} />
+                                </div>
+                                <span className="w-20 text-right font-mono text-muted">{Math.round(r.rate * 100)}% · {r.approved + r.rejected}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <div className="bg-surface border border-border rounded-xl p-5">
+                    <div className="mb-4 text-xs font-bold text-white">Rejection reasons</div>
+                    {reasons.length === 0 && <div className="text-xs text-muted italic">No rejections yet.</div>}
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                        {reasons.map(r => {
+                            const label = r.id === NO_REASON ? 'No reason given' : rejectionReasons.find(x => x.id === r.id)?.label ?? r.id;
+                            return (
+                                <div key={r.id} className="flex items-center gap-3 text-xs">
+                                    <span className="w-32 truncate text-gray-300" title={label}>{label}</span>
+                                    <div className="flex-1 h-2 rounded-full bg-background overflow-hidden">
+                                        <div className="bg-danger h-full" style={{ width: `${(r.count / reasonMax) * 100}%` }} />
+                                    </div>
+                                    <span className="w-10 text-right font-mono text-muted">{r.count}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+  };
+
+  const renderDashboard = () => (
+    <div className="p-8 max-w-7xl mx-auto h-full overflow-y-auto">
+        <div className="flex items-center justify-between mb-8">
+            <h2 className="text-3xl font-bold text-white">Production Overview</h2>
+            <div className="text-sm text-muted bg-surface px-3 py-1 rounded-full border border-border">
+                {new Date().toLocaleDateString()}
+            </div>
+        </div>
+        
+        <div className="grid grid-cols-4 gap-6 mb-8">
+            <StatCard label="Total Assets" value={stats.total} caption="Active in pipeline" icon={FolderOpen} tone="neutral" />
+            <StatCard label="Approved" value={stats.approved} caption="Ready for deployment" icon={CheckCircle2} tone="success" />
+            <StatCard label="Rejected" value={stats.rejected} caption="Requires attention" icon={XCircle} tone="danger" />
+            <StatCard label="Pending QC" value={stats.pending} caption="Awaiting review" icon={RefreshCcw} tone="warning" />
+        </div>
+
+        {backgrounds.length > 0 && (
+            <>
+                <h3 className="text-xs font-bold text-muted uppercase tracking-wider mb-3 flex items-center gap-2">
+                    <Mountain size={14} /> Backgrounds
+                </h3>
+                <div className="grid grid-cols-4 gap-6 mb-8">
+                    <StatCard label="Backgrounds" value={bgStats.total} caption="Locations from script" icon={Mountain} tone="neutral" />
+                    <StatCard label="Approved" value={bgStats.approved} caption="Ready for deployment" icon={CheckCircle2} tone="success" />
+                    <StatCard label="Rejected" value={bgStats.rejected} caption="Requires attention" icon={XCircle} tone="danger" />
+                    <StatCard label="Pending QC" value={bgStats.pending} caption="Awaiting review" icon={RefreshCcw} tone="warning" />
+                </div>
+            </>
+        )}
+
+        {chapterGroups.length > 0 && (
+            <>
+                <h3 className="text-xs font-bold text-muted uppercase tracking-wider mb-3 flex items-center gap-2">
+                    <Layers size={14} /> Chapters
+                </h3>
+                <div className="bg-surface border border-border rounded-xl divide-y divide-border mb-8">
+                    {chapterGroups.map(group => {
+                        const total = group.items.length;
+                        const ready = group.approved === total;
+                        return (
+                            <div key={group.id} className="px-5 py-3 flex items-center gap-4 text-sm">
+                                <span className="w-28 font-bold text-white">{group.label}</span>
+                                <div className="flex-1 h-2 rounded-full bg-background overflow-hidden flex">
+                                    <div className="bg-success h-full" style={{ width: `${(group.approved / total) * 100}%` }} />
+                                    <div className="bg-danger h-full" style={{ width: `${(group.rejected / total) * 100}%` }} />
+                                </div>
+                                <span className="w-72 text-xs font-mono text-right">
+                                    <span className="text-success">{group.approved} approved</span>
+                                    <span className="text-muted"> · </span>
+                                    <span className="text-danger">{group.rejected} rejected</span>
+                                    <span className="text-muted"> · {group.pending} pending</span>
+                                </span>
+                                <span className={`w-24 text-right text-[10px] font-bold uppercase tracking-wider ${ready ? 'text-success' : 'text-muted'}`}>
+                                    {ready ? 'Ready to ship' : `${Math.round((group.approved / total) * 100)}%`}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </>
+        )}
+
+        {qcEvents.length > 0 && renderAnalytics()}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-surface border border-border rounded-xl p-6">
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <div className="p-1.5 bg-primary/10 rounded-md">
+                        <Upload size={18} className="text-primary"/> 
+                    </div>
+                    Quick Import
+                </h3>
+                <div className="grid grid-cols-2 gap-4">
+                    <label className="group flex flex-col items-center justify-center p-8 border border-dashed border-border rounded-xl hover:border-primary hover:bg-surfaceHighlight cursor-pointer transition-all">
+                        <div className="w-12 h-12 rounded-full bg-surfaceHighlight group-hover:bg-primary/20 flex items-center justify-center mb-3 transition-colors">
+                            <FileText size={24} className="text-muted group-hover:text-primary transition-colors" />
+                        </div>
+                        <span className="text-sm font-medium text-white">Upload Prompts</span>
+                        <span className="text-xs text-muted mt-1">JSON, CSV or TSV</span>
+                        <input type="file" accept=".json,.csv,.tsv,.txt" className="hidden" onChange={handleJSONUpload} />
+                    </label>
+                    <label className="group flex flex-col items-center justify-center p-8 border border-dashed border-border rounded-xl hover:border-primary hover:bg-surfaceHighlight cursor-pointer transition-all">
+                        <div className="w-12 h-12 rounded-full bg-surfaceHighlight group-hover:bg-primary/20 flex items-center justify-center mb-3 transition-colors">
+                            <ImageIcon size={24} className="text-muted group-hover:text-primary transition-colors" />
+                        </div>
+                        <span className="text-sm font-medium text-white">Upload Images</span>
+                        <span className="text-xs text-muted mt-1">Batch import scenes</span>
+                        <input type="file" multiple accept="image/*" className="hidden" onChange={handleImageUpload} />
+                    </label>
+                </div>
+            </div>
+
+            <div className="bg-surface border border-border rounded-xl p-6">
+                <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                    <div className="p-1.5 bg-surfaceHighlight rounded-md">
+                        <Settings size={18} className="text-muted"/> 
+                    </div>
+                    System Status
+                </h3>
+                <div className="space-y-4">
+                    <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
                         <div className="flex items-center gap-3">
                             <div className="w-8 h-8 rounded-full bg-surfaceHighlight flex items-center justify-center">
                                 <Terminal size={14} className="text-muted" />
@@ -390,387 +2015,2089 @@ export default function App() {
                             </div>
                         </div>
                         <div className="flex items-center gap-2 px-3 py-1 bg-surfaceHighlight rounded text-xs font-mono">
-                             <div className="w-2 h-2 rounded-full bg-success animate-pulse"></div>
+                             <div className={`w-2 h-2 rounded-full ${backendMeta.dot}`}></div>
                              <span>{backendUrl}</span>
                         </div>
                     </div>
-                    <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
-                        <div className="flex items-center gap-3">
-                            <div className="w-8 h-8 rounded-full bg-surfaceHighlight flex items-center justify-center">
-                                <FileText size={14} className="text-muted" />
-                            </div>
-                            <div>
-                                <div className="text-sm font-medium text-white">Prompt Database</div>
-                                <div className="text-xs text-muted">Current session memory</div>
+                    <div className="px-4 py-3 bg-background rounded-lg border border-border text-xs space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className={`font-bold uppercase tracking-wider ${backendMeta.text}`}>{backendMeta.label}</span>
+                            <div className="flex items-center gap-3 text-muted font-mono">
+                                {backendHealth.latencyMs !== undefined && <span>{backendHealth.latencyMs} ms</span>}
+                                {backendHealth.version && <span>v{backendHealth.version}</span>}
+                                <button onClick={recheckBackend} className="hover:text-white transition-colors" title="Check now">
+                                    <RefreshCcw size={12} />
+                                </button>
+                            </div>
+                        </div>
+                        {backendHealth.message && <div className="text-muted">{backendHealth.message}</div>}
+                        {backendHealth.models.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                                <span className="text-muted">Models:</span>
+                                {backendHealth.models.map(m => <span key={m} className="font-mono bg-surfaceHighlight px-1.5 py-0.5 rounded text-gray-300">{m}</span>)}
+                            </div>
+                        )}
+                        {backendHealth.workflows.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                                <span className="text-muted">Workflows:</span>
+                                {backendHealth.workflows.map(w => <span key={w} className="font-mono bg-surfaceHighlight px-1.5 py-0.5 rounded text-gray-300">{w}</span>)}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
+                        <div className="flex items-center gap-3">
+                            <div className="w-8 h-8 rounded-full bg-surfaceHighlight flex items-center justify-center">
+                                <FileText size={14} className="text-muted" />
+                            </div>
+                            <div>
+                                <div className="text-sm font-medium text-white">Prompt Database</div>
+                                <div className="text-xs text-muted">Current session memory</div>
+                            </div>
+                        </div>
+                        <div className="px-3 py-1 bg-surfaceHighlight rounded text-xs text-white font-medium">
+                            {promptData.length > 0 ? `${promptData.length} entries active` : 'Empty'}
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between p-4 bg-background rounded-lg border border-border">
+                        <div className="flex items-center gap-3">
+                            <div className="w-8 h-8 rounded-full bg-surfaceHighlight flex items-center justify-center">
+                                <Database size={14} className="text-muted" />
+                            </div>
+                            <div>
+                                <div className="text-sm font-medium text-white">Saved Session</div>
+                                <div className={`text-xs ${sessionError ? 'text-danger' : 'text-muted'}`}>
+                                    {sessionError || (lastSavedAt ? `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}` : sessionLoaded ? 'IndexedDB' : 'Restoring...')}
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="px-3 py-1 bg-surfaceHighlight rounded text-xs text-white font-medium font-mono">
+                                {storageUsage ? `${formatBytes(storageUsage.usage)} / ${formatBytes(storageUsage.quota)}` : '—'}
+                            </div>
+                            <button
+                                onClick={handleClearSession}
+                                className="p-1.5 rounded bg-surfaceHighlight text-muted hover:text-danger hover:bg-danger/10 transition-colors"
+                                title="Clear session"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+
+  const renderExtraction = () => (
+    <div className="p-8 h-full flex flex-col max-w-7xl mx-auto">
+        <div className="mb-6">
+            <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                <FileText className="text-primary" /> 
+                Asset Extraction Center
+            </h2>
+            <p className="text-muted text-sm mt-1">Convert screenplay documents into structured asset lists.</p>
+        </div>
+        
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-8 min-h-0">
+            {/* Left: Upload Area */}
+            <div className="bg-surface border border-border rounded-xl p-8 flex flex-col items-center justify-center text-center shadow-lg">
+                {!docxFile ? (
+                    <label className="w-full h-full min-h-[300px] flex flex-col items-center justify-center border-2 border-dashed border-border rounded-xl hover:border-primary hover:bg-surfaceHighlight cursor-pointer transition-all p-12 group">
+                        <div className="w-20 h-20 bg-surfaceHighlight rounded-full flex items-center justify-center mb-6 group-hover:bg-primary/20 transition-colors">
+                            <FileText size={40} className="text-muted group-hover:text-primary transition-colors" />
+                        </div>
+                        <h3 className="text-xl font-bold mb-2 text-white">Upload Script (.docx)</h3>
+                        <p className="text-muted mb-8 max-w-sm">Drag and drop your screenplay file here to begin the analysis and extraction process.</p>
+                        <span className="bg-primary hover:bg-primaryHover text-white px-8 py-3 rounded-lg font-bold transition-all transform group-hover:scale-105 shadow-lg shadow-primary/20">
+                            Select File
+                        </span>
+                        <input type="file" accept=".docx" className="hidden" onChange={handleDocxUpload} />
+                    </label>
+                ) : (
+                    <div className="w-full max-w-md animate-in fade-in zoom-in duration-300">
+                        <div className="bg-background p-6 rounded-xl border border-border mb-8 flex items-center gap-4 relative overflow-hidden group">
+                            <div className="absolute left-0 top-0 bottom-0 w-1 bg-primary"></div>
+                            <FileText size={32} className="text-primary" />
+                            <div className="text-left flex-1 overflow-hidden">
+                                <div className="font-bold truncate text-white text-lg">{docxFile.name}</div>
+                                <div className="text-xs text-muted">{(docxFile.size / 1024).toFixed(1)} KB • Word Document</div>
+                            </div>
+                            <button onClick={() => { setDocxFile(null); setExtractionResult(null); }} className="p-2 hover:bg-surfaceHighlight rounded-full text-muted hover:text-danger transition-colors">
+                                <XCircle size={24} />
+                            </button>
+                        </div>
+                        <button 
+                            onClick={handleExtraction}
+                            disabled={isExtracting}
+                            className={`w-full py-4 rounded-xl font-bold flex items-center justify-center gap-3 text-lg shadow-xl transition-all ${
+                                isExtracting ? 'bg-surfaceHighlight text-muted cursor-wait' : 'bg-primary hover:bg-primaryHover text-white hover:scale-[1.02]'
+                            }`}
+                        >
+                            {isExtracting ? (
+                                <>
+                                    <div className="w-5 h-5 border-2 border-muted border-t-white rounded-full animate-spin"></div>
+                                    Analyzing Document...
+                                </>
+                            ) : (
+                                <>
+                                    <PlayCircle size={24} /> Start Extraction
+                                </>
+                            )}
+                        </button>
+
+                        {extractionResult && (
+                            <div className="mt-6 animate-in fade-in duration-300">
+                                <div className="grid grid-cols-3 gap-3 mb-4">
+                                    <div className="bg-background border border-border rounded-lg p-3">
+                                        <div className="text-2xl font-bold text-white">{extractionResult.images.length}</div>
+                                        <div className="text-[10px] text-muted uppercase font-bold">Image Prompts</div>
+                                    </div>
+                                    <div className="bg-background border border-border rounded-lg p-3">
+                                        <div className="text-2xl font-bold text-white">{extractionResult.backgrounds.length}</div>
+                                        <div className="text-[10px] text-muted uppercase font-bold">Backgrounds</div>
+                                    </div>
+                                    <div className="bg-background border border-border rounded-lg p-3">
+                                        <div className="text-2xl font-bold text-white">{extractionResult.audio.length}</div>
+                                        <div className="text-[10px] text-muted uppercase font-bold">Audio Cues</div>
+                                    </div>
+                                </div>
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={handleDownloadExtraction}
+                                        className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white py-3 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors border border-white/10"
+                                    >
+                                        <Download size={14} /> Save JSON
+                                    </button>
+                                    <button
+                                        onClick={() => setCurrentView('qc')}
+                                        disabled={extractionResult.images.length === 0}
+                                        className="flex-1 flex items-center justify-center gap-2 bg-primary hover:bg-primaryHover text-white py-3 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-40"
+                                    >
+                                        <CheckCircle2 size={14} /> Open QC Studio
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Right: Console Log */}
+            <div className="bg-surface border border-border rounded-xl p-0 flex flex-col overflow-hidden shadow-lg h-full">
+                <div className="px-6 py-4 border-b border-border bg-surfaceHighlight flex items-center justify-between">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-muted flex items-center gap-2">
+                        <Terminal size={14} /> Process Log
+                    </h3>
+                    {isExtracting && <div className="text-xs text-primary animate-pulse font-mono">● Running</div>}
+                </div>
+                <div className="flex-1 bg-[#0c0c0e] p-6 font-mono text-sm overflow-y-auto space-y-3">
+                    {extractionLog.length === 0 ? (
+                        <div className="h-full flex flex-col items-center justify-center text-muted opacity-30">
+                            <Terminal size={48} className="mb-4" />
+                            <div>Waiting for input...</div>
+                        </div>
+                    ) : (
+                        extractionLog.map((log, i) => (
+                            <div key={i} className="flex items-start gap-3 animate-in slide-in-from-left-2 duration-200">
+                                <span className="text-primary font-bold select-none">{`>`}</span>
+                                <span className="text-gray-300">{log}</span>
+                            </div>
+                        ))
+                    )}
+                    {/* Fake cursor */}
+                    {isExtracting && (
+                        <div className="w-2 h-4 bg-primary animate-pulse inline-block align-middle"></div>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+
+  const renderQC = () => {
+    const current = images[qcIndex];
+    if (!current) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center text-center p-8 bg-background">
+                <div className="bg-surface p-16 rounded-2xl border border-border max-w-xl w-full shadow-2xl">
+                    <div className="w-24 h-24 bg-surfaceHighlight rounded-full flex items-center justify-center mx-auto mb-8">
+                         <ImageIcon size={48} className="text-muted" />
+                    </div>
+                    <h2 className="text-3xl font-bold mb-4 text-white">QC Studio Empty</h2>
+                    <p className="text-muted mb-10 text-lg">Load your generated assets or JSON prompt data to begin the quality control workflow.</p>
+                    <div className="flex gap-4 justify-center">
+                        <label className="bg-primary hover:bg-primaryHover text-white px-8 py-4 rounded-xl font-bold cursor-pointer transition-all flex items-center gap-2 shadow-lg hover:shadow-primary/30">
+                            <Upload size={20} /> Upload Images
+                            <input type="file" multiple accept="image/*" className="hidden" onChange={handleImageUpload} />
+                        </label>
+                        <label className="bg-surfaceHighlight hover:bg-surfaceHighlight/80 text-white px-8 py-4 rounded-xl font-bold cursor-pointer transition-all flex items-center gap-2 border border-border hover:border-white/20">
+                            <FileText size={20} /> Load Prompts
+                            <input type="file" accept=".json,.csv,.tsv,.txt" className="hidden" onChange={handleJSONUpload} />
+                        </label>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    const chars = detectCharactersFromPrompt(current.prompt, cast, outfits);
+    const allFacts = Array.from(queueFacts.values());
+    const unique = (values: string[]) => Array.from(new Set(values)).sort(naturalCompare);
+    const filterFacets: { key: Exclude<keyof QueueFilter, 'search'>, label: string, options: { value: string, label: string }[] }[] = [
+        { key: 'statuses', label: 'Status', options: (['pending', 'approved', 'rejected'] as const).map(s => ({ value: s, label: s })) },
+        { key: 'characters', label: 'Character', options: unique(allFacts.flatMap(f => f.characters.map(c => c.name))).map(n => ({ value: n, label: n })) },
+        { key: 'outfits', label: 'Outfit', options: unique(allFacts.flatMap(f => f.characters.map(c => c.outfit))).filter(o => o !== DEFAULT_OUTFIT).map(o => ({ value: o, label: outfitLabel(outfits, o) })) },
+        { key: 'settings', label: 'Setting', options: unique(allFacts.map(f => f.setting)).map(v => ({ value: v, label: v })) },
+        { key: 'chapters', label: 'Chapter', options: chapterGroups.map(g => ({ value: g.id, label: g.label })) }
+    ];
+    const castByName = Object.fromEntries(cast.map(m => [m.name, m]));
+    const ranking = rankLocations(current.prompt, locations);
+    const currentWarnings = activeWarnings.filter(w => w.imageId === current.id);
+    const linkedBackgroundId = locations.find(l => l.id === settingOf(current))?.backgroundId;
+    const linkedBackground = linkedBackgroundId ? backgrounds.find(b => b.id === linkedBackgroundId) : undefined;
+
+    // Default comparison: the version before the active one vs. the active one
+    const activePos = current.history.findIndex(v => v.id === current.activeVersionId);
+    const findVersion = (id: string | null) => current.history.find(v => v.id === id);
+    const compareTarget = findVersion(compareIds.target) || current.history[activePos];
+    const compareBase = findVersion(compareIds.base) || current.history[activePos > 0 ? activePos - 1 : activePos + 1];
+
+    return (
+        <div className="flex h-full overflow-hidden bg-background">
+            {/* Left: Thumbnail List */}
+            <div className="w-72 bg-surface border-r border-border flex flex-col flex-shrink-0 z-10">
+                <div className="p-4 border-b border-border bg-surfaceHighlight/50 backdrop-blur space-y-3">
+                    <h3 className="font-bold text-xs text-muted uppercase tracking-wider flex items-center justify-between">
+                        <span>Queue ({order.length === images.length ? images.length : `${order.length} of ${images.length}`})</span>
+                        <span className="text-primary">{queuePos >= 0 ? queuePos + 1 : '–'} / {order.length}</span>
+                    </h3>
+                    <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-muted" />
+                            <input
+                                type="text"
+                                value={queueFilter.search}
+                                onChange={(e) => setQueueFilter(f => ({ ...f, search: e.target.value }))}
+                                placeholder="Search name or prompt"
+                                className="w-full bg-[#0c0c0e] border border-border rounded pl-7 pr-2 py-1.5 text-xs text-white focus:border-primary outline-none"
+                            />
+                        </div>
+                        <button
+                            onClick={() => setShowQueueFilters(v => !v)}
+                            className={`p-1.5 rounded border transition-colors ${showQueueFilters || isFilterActive(queueFilter) ? 'border-primary text-primary bg-primary/10' : 'border-border text-muted hover:text-white'}`}
+                            title="Filters"
+                        >
+                            <Filter size={14} />
+                        </button>
+                    </div>
+                    {showQueueFilters && (
+                        <div className="space-y-2">
+                            <select
+                                value={queueSort}
+                                onChange={(e) => setQueueSort(e.target.value as QueueSort)}
+                                className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none"
+                            >
+                                {SORT_OPTIONS.map(o => <option key={o.id} value={o.id}>Sort: {o.label}</option>)}
+                            </select>
+                            {filterFacets.map(facet => facet.options.length > 0 && (
+                                <div key={facet.key}>
+                                    <div className="text-[10px] font-bold uppercase tracking-wider text-muted mb-1">{facet.label}</div>
+                                    <div className="flex flex-wrap gap-1">
+                                        {facet.options.map(option => {
+                                            const active = (queueFilter[facet.key] as string[]).includes(option.value);
+                                            return (
+                                                <button
+                                                    key={option.value}
+                                                    onClick={() => toggleQueueFilter(facet.key, option.value)}
+                                                    className={`px-2 py-0.5 rounded-full border text-[10px] transition-colors ${active ? 'bg-primary/20 border-primary/40 text-primary' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                                                >
+                                                    {option.label}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                            {isFilterActive(queueFilter) && (
+                                <button onClick={() => setQueueFilter(EMPTY_FILTER)} className="text-[10px] font-bold uppercase tracking-wider text-muted hover:text-white">
+                                    Clear filters
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </div>
+                {selectedIds.length > 0 && (
+                    <div className="px-3 py-2 border-b border-border bg-primary/5 space-y-2">
+                        <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider">
+                            <span className="text-primary">{selectedIds.length} selected</span>
+                            <button onClick={() => setSelectedIds([])} className="text-muted hover:text-white">Clear</button>
+                        </div>
+                        <div className="grid grid-cols-3 gap-1">
+                            {([
+                                ['Approve', { kind: 'status', status: 'approved' }],
+                                ['Reject', { kind: 'status', status: 'rejected' }],
+                                ['Retry', { kind: 'retry' }],
+                                ['Outfit', { kind: 'outfit', character: selectionCharacters[0] || '', outfit: DEFAULT_OUTFIT }],
+                                ['Replace', { kind: 'replace', find: '', replace: '', caseSensitive: false, wholeWord: true }]
+                            ] as [string, BulkAction][]).map(([label, action]) => (
+                                <button
+                                    key={label}
+                                    onClick={() => action.kind === 'status' && action.status === 'rejected' ? setRejectTarget('selection') : setBulkAction(action)}
+                                    disabled={action.kind === 'outfit' && selectionCharacters.length === 0}
+                                    className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 border border-white/10 text-[10px] font-bold uppercase tracking-wider text-white transition-colors disabled:opacity-30"
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                    {queueGroups.length === 0 && <div className="p-4 text-center text-xs text-muted italic">No images match the filters.</div>}
+                    {queueGroups.map(group => {
+                        const collapsed = collapsedChapters.includes(group.id);
+                        const done = group.approved + group.rejected;
+                        // A collapsed group still shows the image being reviewed
+                        const visible = collapsed ? group.items.filter(item => item.index === qcIndex) : group.items;
+                        return (
+                            <div key={group.id}>
+                                <button
+                                    onClick={() => setCollapsedChapters(prev => collapsed ? prev.filter(id => id !== group.id) : [...prev, group.id])}
+                                    className="w-full flex items-center gap-2 px-1 py-1.5 text-[10px] font-bold uppercase tracking-wider text-muted hover:text-white transition-colors"
+                                >
+                                    {collapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                                    <span className="flex-1 text-left">{group.label}</span>
+                                    <span className="font-mono normal-case">
+                                        <span className="text-success">{group.approved}</span>
+                                        {' / '}
+                                        <span className="text-danger">{group.rejected}</span>
+                                        {' / '}
+                                        <span>{group.pending}</span>
+                                    </span>
+                                </button>
+                                <div className="h-1 mx-1 mb-2 rounded-full bg-background overflow-hidden flex" title={`${done} of ${group.items.length} reviewed`}>
+                                    <div className="bg-success h-full" style={{ width: `${(group.approved / group.items.length) * 100}%` }} />
+                                    <div className="bg-danger h-full" style={{ width: `${(group.rejected / group.items.length) * 100}%` }} />
+                                </div>
+                                <div className="space-y-2">
+                                    {visible.map(({ img, index: idx }) => (
+                                        <div 
+                                            key={img.id}
+                                            onClick={(e) => handleQueueClick(e, img, idx)}
+                                            className={`
+                                                group flex items-start gap-3 p-2.5 rounded-xl cursor-pointer transition-all border select-none
+                                                ${idx === qcIndex 
+                                                    ? 'bg-primary/10 border-primary shadow-lg shadow-primary/5' 
+                                                    : selectedIds.includes(img.id)
+                                                        ? 'bg-primary/5 border-primary/40'
+                                                        : 'bg-surfaceHighlight/30 border-transparent hover:bg-surfaceHighlight hover:border-border'}
+                                            `}
+                                        >
+                                            <div className="relative w-14 h-14 flex-shrink-0">
+                                                <img src={img.url} className="w-full h-full rounded-lg bg-black object-cover" alt="" />
+                                                {idx === qcIndex && <div className="absolute inset-0 rounded-lg ring-2 ring-primary ring-inset"></div>}
+                                                {selectedIds.includes(img.id) && (
+                                                    <div className="absolute -top-1 -left-1 w-5 h-5 rounded-full bg-primary text-white flex items-center justify-center shadow">
+                                                        <CheckCircle2 size={11} />
+                                                    </div>
+                                                )}
+                                                {activeWarnings.some(w => w.imageId === img.id) && (
+                                                    <div className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-warning text-black flex items-center justify-center shadow" title="Continuity warning">
+                                                        <AlertTriangle size={11} />
+                                                    </div>
+                                                )}
+                                            </div>
+                                            <div className="flex-1 min-w-0 flex flex-col justify-center h-14">
+                                                <div className={`text-sm font-medium truncate mb-1 ${idx === qcIndex ? 'text-white' : 'text-gray-400 group-hover:text-white'}`}>
+                                                    {img.name}
+                                                </div>
+                                                <div className="flex items-center gap-2 min-w-0">
+                                                    {img.status === 'approved' && <div className="flex items-center gap-1 text-[10px] bg-success/10 text-success px-1.5 py-0.5 rounded font-bold uppercase"><CheckCircle2 size={10} /> Approved</div>}
+                                                    {img.status === 'rejected' && <div className="flex items-center gap-1 text-[10px] bg-danger/10 text-danger px-1.5 py-0.5 rounded font-bold uppercase shrink-0"><XCircle size={10} /> Rejected</div>}
+                                                    {img.status === 'rejected' && img.rejection && (
+                                                        <span className="text-[10px] text-danger/80 truncate" title={describeRejection(img.rejection, rejectionReasons)}>
+                                                            {describeRejection(img.rejection, rejectionReasons)}
+                                                        </span>
+                                                    )}
+                                                    {img.status === 'pending' && <div className="flex items-center gap-1 text-[10px] bg-background text-muted px-1.5 py-0.5 rounded font-bold uppercase"><RefreshCcw size={10} /> Pending</div>}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="p-4 border-t border-border bg-surface">
+                    <button 
+                        onClick={handleDownloadApproved}
+                        disabled={exportProgress !== null}
+                        className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white py-3 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors border border-white/10 disabled:cursor-wait"
+                    >
+                        <Download size={14} />
+                        {exportProgress ? `Packing ${exportProgress.done} / ${exportProgress.total}` : `Download Approved (${stats.approved})`}
+                    </button>
+                </div>
+            </div>
+
+            {/* Center: Viewer */}
+            <div className="flex-1 flex flex-col bg-[#0c0c0e] relative min-w-0">
+                <div className="h-16 bg-surface border-b border-border flex items-center justify-between px-6 shadow-sm z-20">
+                    <div className="font-mono text-sm text-white truncate max-w-xl flex items-center gap-2">
+                        <ImageIcon size={16} className="text-primary"/>
+                        {current.name}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setShowCheatSheet(true)}
+                            className="h-9 px-3 flex items-center gap-2 rounded-lg bg-surfaceHighlight hover:bg-border text-muted hover:text-white text-xs transition-colors"
+                            title="Keyboard shortcuts"
+                        >
+                            <Keyboard size={16} /> <Kbd combo={CHEAT_SHEET_KEY} />
+                        </button>
+                        <button 
+                            onClick={() => stepQueue(-1)}
+                            disabled={queuePos <= 0}
+                            className="w-9 h-9 flex items-center justify-center rounded-lg bg-surfaceHighlight hover:bg-border text-white disabled:opacity-30 disabled:hover:bg-surfaceHighlight transition-colors"
+                        >
+                            <ChevronLeft size={20} />
+                        </button>
+                        <button 
+                            onClick={() => stepQueue(1)}
+                            disabled={queuePos >= order.length - 1}
+                            className="w-9 h-9 flex items-center justify-center rounded-lg bg-surfaceHighlight hover:bg-border text-white disabled:opacity-30 disabled:hover:bg-surfaceHighlight transition-colors"
+                        >
+                            <ChevronRight size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 p-8 flex items-center justify-center relative overflow-hidden">
+                    {/* Loading Overlay */}
+                    {isRegenerating ? (
+                        <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center animate-in fade-in duration-300">
+                            <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mb-6"></div>
+                            <div className="text-white text-lg font-medium">Generating variation...</div>
+                            <div className="text-muted text-sm mt-2">Sending prompt to {backendUrl}</div>
+                            <button
+                                onClick={() => regenAbortRef.current?.abort()}
+                                className="mt-6 px-5 py-2 rounded-lg border border-white/20 text-white text-xs font-bold uppercase tracking-wider hover:bg-white/10 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    ) : null}
+
+                    {regenError && <BackendErrorBanner error={regenError} onDismiss={() => setRegenError(null)} />}
+
+                    {/* Image Area */}
+                    <div className="relative w-full h-full flex items-center justify-center">
+                        {compareMode && compareBase && compareTarget ? (
+                            <ComparisonView oldUrl={compareBase.url} newUrl={compareTarget.url} />
+                        ) : (
+                            <img 
+                                src={current.url} 
+                                className="max-w-full max-h-full object-contain shadow-2xl rounded-lg border border-border/50" 
+                                alt="Preview" 
+                            />
+                        )}
+                        
+                        {/* Status Watermark if decided */}
+                        {current.status !== 'pending' && (
+                            <div className={`
+                                absolute top-4 right-4 px-4 py-2 rounded-full font-bold text-sm uppercase tracking-wider shadow-lg backdrop-blur-md border
+                                ${current.status === 'approved' ? 'bg-success/20 border-success/50 text-success' : 'bg-danger/20 border-danger/50 text-danger'}
+                            `}>
+                                {current.status}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {current.history.length > 1 && (
+                    <VersionFilmstrip
+                        versions={current.history}
+                        activeId={current.activeVersionId}
+                        baseId={compareMode ? compareBase?.id ?? null : null}
+                        targetId={compareMode ? compareTarget?.id ?? null : null}
+                        onPick={handlePickCompareVersion}
+                        onRevert={(versionId) => handleRevertVersion(current.id, versionId)}
+                    />
+                )}
+
+                {backendOffline && <BackendOfflineNotice health={backendHealth} onRetry={recheckBackend} />}
+
+                {/* Toolbar */}
+                <div className="h-24 bg-surface border-t border-border flex items-center justify-center gap-6 px-8 z-20">
+                    <button 
+                        onClick={() => setImageStatus('approved')}
+                        className="flex-1 max-w-[220px] h-12 bg-success hover:bg-emerald-500 text-white font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg shadow-success/20 flex items-center justify-center gap-2 text-sm uppercase tracking-wide"
+                    >
+                        <CheckCircle2 size={20} /> Approve <Kbd combo={hotkeys.approve} />
+                    </button>
+                    
+                    <button 
+                        onClick={handleRegenerate}
+                        disabled={isRegenerating || backendOffline}
+                        title={backendOffline ? 'Backend offline' : undefined}
+                        className="flex-1 max-w-[220px] h-12 bg-primary hover:bg-primaryHover text-white font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg shadow-primary/20 flex items-center justify-center gap-2 text-sm uppercase tracking-wide disabled:opacity-50 disabled:scale-100"
+                    >
+                        <RefreshCcw size={20} /> Regenerate <Kbd combo={hotkeys.regenerate} />
+                    </button>
+
+                    {current.history.length > 1 && (
+                        <button 
+                            onClick={() => setCompareMode(!compareMode)}
+                            className={`flex-1 max-w-[220px] h-12 border-2 font-bold rounded-xl transition-all active:scale-95 flex items-center justify-center gap-2 text-sm uppercase tracking-wide ${compareMode ? 'bg-white text-black border-white' : 'border-white/20 text-white hover:bg-white/10'}`}
+                        >
+                            <SplitSquareHorizontal size={20} /> Compare <Kbd combo={hotkeys.compare} />
+                        </button>
+                    )}
+
+                    <button 
+                        onClick={() => setRejectTarget('current')}
+                        className="flex-1 max-w-[220px] h-12 bg-surfaceHighlight hover:bg-danger text-white hover:text-white border border-border hover:border-danger font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg flex items-center justify-center gap-2 text-sm uppercase tracking-wide group"
+                    >
+                        <XCircle size={20} className="text-danger group-hover:text-white transition-colors" /> Reject <Kbd combo={hotkeys.reject} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Right: Context */}
+            <div className="w-80 bg-surface border-l border-border flex flex-col flex-shrink-0 overflow-y-auto z-10 shadow-xl">
+                {current.status === 'rejected' && current.rejection && (
+                    <div className="p-5 border-b border-border bg-danger/5">
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="font-bold text-xs uppercase text-danger tracking-wider flex items-center gap-2">
+                                <XCircle size={14} /> Rejected
+                            </h3>
+                            <button onClick={() => setRejectTarget('current')} className="text-[10px] font-bold uppercase tracking-wider text-muted hover:text-white transition-colors">Edit</button>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            {reasonLabels(current.rejection, rejectionReasons).map(label => (
+                                <span key={label} className="px-2 py-0.5 rounded-full bg-danger/10 border border-danger/30 text-[10px] text-danger">{label}</span>
+                            ))}
+                        </div>
+                        {current.rejection.note && <p className="mt-2 text-xs text-gray-300 whitespace-pre-wrap">{current.rejection.note}</p>}
+                    </div>
+                )}
+                <div className="p-5 border-b border-border">
+                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-3 flex items-center gap-2">
+                        <FileText size={14} /> Prompt Details
+                    </h3>
+                    <div className="relative">
+                        <textarea 
+                            className="w-full h-40 bg-[#0c0c0e] border border-border rounded-lg p-3 text-xs font-mono text-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-none leading-relaxed"
+                            value={current.prompt}
+                            onChange={(e) => updateCurrentPrompt(e.target.value, 'Edit prompt', true)}
+                        />
+                        <div className="absolute bottom-2 right-2">
+                            <button 
+                                onClick={resetCurrentPrompt}
+                                className="p-1.5 bg-surface border border-border rounded hover:border-primary text-muted hover:text-primary transition-colors"
+                                title={`Reset Prompt (${formatCombo(hotkeys.resetPrompt)})`}
+                            >
+                                <RefreshCcw size={12} />
+                            </button>
+                        </div>
+                    </div>
+                    {isPromptEdited(current) && (
+                        <div className="mt-3 bg-background border border-border rounded-lg p-3">
+                            <div className="text-[10px] text-muted uppercase font-bold mb-1.5">Changes vs. original</div>
+                            <PromptDiff before={current.originalPrompt} after={current.prompt} />
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-5 border-b border-border">
+                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-4 flex items-center gap-2">
+                        <Settings size={14} /> Character Outfits
+                    </h3>
+                    {chars.length === 0 ? (
+                        <div className="p-4 bg-surfaceHighlight/30 rounded-lg border border-border/50 text-center">
+                            <div className="text-xs text-muted italic">No specific characters detected in prompt text.</div>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            {chars.map(char => (
+                                <div key={char.name} className="bg-surfaceHighlight/30 p-3 rounded-lg border border-border/50">
+                                    <div className="flex items-center justify-between mb-2">
+                                        <span className="text-sm font-bold text-white flex items-center gap-2">
+                                            {castByName[char.name]?.referenceImage && (
+                                                <img src={castByName[char.name].referenceImage} alt="" className="w-6 h-6 rounded object-cover border border-border" />
+                                            )}
+                                            {char.name}
+                                        </span>
+                                        <span className="text-[10px] uppercase bg-primary/20 text-primary px-1.5 py-0.5 rounded border border-primary/20">{outfitLabel(outfits, char.outfit)}</span>
+                                    </div>
+                                    <select 
+                                        className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-2 text-xs text-gray-300 focus:border-primary outline-none"
+                                        value={overridesFor(current.outfitOverride)[char.name] || 'default'}
+                                        onChange={(e) => setCharacterOutfit(char.name, e.target.value)}
+                                    >
+                                        <option value={DEFAULT_OUTFIT}>Default Prompt</option>
+                                        {wardrobeFor(outfits, castByName[char.name]?.id).map(o => <option key={o.id} value={o.id}>{o.icon} {o.label}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-5 border-b border-border">
+                    <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-bold text-xs uppercase text-muted tracking-wider flex items-center gap-2">
+                            <History size={14} /> Recent Actions
+                        </h3>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={handleUndo}
+                                disabled={undoStack.length === 0}
+                                className="p-1.5 rounded bg-surfaceHighlight text-muted hover:text-white disabled:opacity-30 transition-colors"
+                                title="Undo (Ctrl+Z)"
+                            >
+                                <Undo2 size={12} />
+                            </button>
+                            <button
+                                onClick={handleRedo}
+                                disabled={redoStack.length === 0}
+                                className="p-1.5 rounded bg-surfaceHighlight text-muted hover:text-white disabled:opacity-30 transition-colors"
+                                title="Redo (Ctrl+Shift+Z)"
+                            >
+                                <Redo2 size={12} />
+                            </button>
+                        </div>
+                    </div>
+                    {undoStack.length === 0 ? (
+                        <div className="text-xs text-muted italic">Nothing to undo yet.</div>
+                    ) : (
+                        <div className="space-y-1">
+                            {undoStack.slice(-6).reverse().map((entry, i) => (
+                                <div
+                                    key={entry.id}
+                                    onClick={() => {
+                                        const idx = images.findIndex(img => img.id === entry.imageId);
+                                        if (idx >= 0) setQcIndex(idx);
+                                    }}
+                                    className={`flex items-center justify-between gap-2 text-[11px] px-2 py-1 rounded cursor-pointer hover:bg-surfaceHighlight/50 ${i === 0 ? 'text-white' : 'text-muted'}`}
+                                >
+                                    <span className="truncate">{entry.label}</span>
+                                    <span className="font-mono text-[10px] text-muted flex-shrink-0">{new Date(entry.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                </div>
+                            ))}
+                            {redoStack.length > 0 && (
+                                <div className="text-[10px] text-muted px-2 pt-1">{redoStack.length} undone action{redoStack.length === 1 ? '' : 's'} can be redone</div>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-5 flex-1">
+                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-4 flex items-center gap-2">
+                        <AlertCircle size={14} /> Scene Context
+                    </h3>
+                    <div className="space-y-3">
+                         <div className="bg-background border border-border rounded-lg p-3">
+                            <div className="flex items-center justify-between mb-1">
+                                <div className="text-[10px] text-muted uppercase font-bold">Detected Setting</div>
+                                {current.setting ? (
+                                    <span className="text-[10px] font-bold uppercase text-warning">Manual</span>
+                                ) : (
+                                    <span className={`text-[10px] font-bold uppercase ${CONFIDENCE_META[ranking.level]}`}>
+                                        {ranking.level} · {Math.round(ranking.confidence * 100)}%
+                                    </span>
+                                )}
+                            </div>
+                            <div className="text-xs font-mono text-primary bg-primary/10 inline-block px-1.5 py-0.5 rounded">{settingOf(current)}</div>
+                            {ranking.candidates.length > 1 && !current.setting && (
+                                <div className="mt-2 space-y-0.5">
+                                    {ranking.candidates.slice(1, 4).map(c => (
+                                        <button
+                                            key={c.location.id}
+                                            onClick={() => setImageSetting(c.location.id)}
+                                            className="block w-full text-left text-[10px] font-mono text-muted hover:text-white truncate"
+                                            title={`Matched: ${c.hits.join(', ')}`}
+                                        >
+                                            or {c.location.id} <span className="opacity-60">({c.score})</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <select
+                                value={current.setting || ''}
+                                onChange={(e) => setImageSetting(e.target.value || undefined)}
+                                className="mt-2 w-full bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none"
+                            >
+                                <option value="">Auto-detect</option>
+                                {locations.map(l => <option key={l.id} value={l.id}>{locationPath(locations, l.id).map(p => p.label).join(' › ')}</option>)}
+                                <option value={GENERIC_LOCATION}>Generic</option>
+                            </select>
+                            {linkedBackground?.url && (
+                                <img src={linkedBackground.url} alt={linkedBackground.name} title={`Linked background: ${linkedBackground.name}`} className="mt-2 w-full h-16 object-cover rounded border border-border" />
+                            )}
+                         </div>
+                         {currentWarnings.length > 0 && (
+                            <div className="bg-warning/5 border border-warning/30 rounded-lg p-3 space-y-2">
+                                <div className="text-[10px] text-warning uppercase font-bold flex items-center gap-1.5"><AlertTriangle size={12} /> Continuity</div>
+                                {currentWarnings.map(w => (
+                                    <div key={w.id} className="text-xs text-gray-300">
+                                        <div>{describeContinuity(w)}</div>
+                                        <div className="flex items-center gap-3 mt-1">
+                                            <button onClick={() => jumpToImage(w.previousImageId)} className="text-[10px] text-muted hover:text-white font-mono">
+                                                ← {images.find(i => i.id === w.previousImageId)?.name}
+                                            </button>
+                                            <button onClick={() => toggleContinuityAck(w.id)} className="ml-auto text-[10px] font-bold uppercase tracking-wider text-warning hover:text-white">
+                                                Mark intentional
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                         )}
+                         <div className="bg-background border border-border rounded-lg p-3">
+                            <div className="text-[10px] text-muted uppercase font-bold mb-1">File Source</div>
+                            <div className="text-xs font-mono text-gray-400 break-all">{current.name}</div>
+                         </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+  };
+
+  const renderBackgroundQC = () => {
+    const current = backgrounds[bgIndex];
+    if (!current) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center text-center p-8 bg-background">
+                <div className="bg-surface p-16 rounded-2xl border border-border max-w-xl w-full shadow-2xl">
+                    <div className="w-24 h-24 bg-surfaceHighlight rounded-full flex items-center justify-center mx-auto mb-8">
+                         <Mountain size={48} className="text-muted" />
+                    </div>
+                    <h2 className="text-3xl font-bold mb-4 text-white">No Backgrounds Queued</h2>
+                    <p className="text-muted mb-10 text-lg">Extract a screenplay to queue its [background] tags, or upload background renders directly.</p>
+                    <div className="flex gap-4 justify-center">
+                        <label className="bg-primary hover:bg-primaryHover text-white px-8 py-4 rounded-xl font-bold cursor-pointer transition-all flex items-center gap-2 shadow-lg hover:shadow-primary/30">
+                            <Upload size={20} /> Upload Backgrounds
+                            <input type="file" multiple accept="image/*" className="hidden" onChange={handleBackgroundUpload} />
+                        </label>
+                        <button
+                            onClick={() => setCurrentView('extraction')}
+                            className="bg-surfaceHighlight hover:bg-surfaceHighlight/80 text-white px-8 py-4 rounded-xl font-bold cursor-pointer transition-all flex items-center gap-2 border border-border hover:border-white/20"
+                        >
+                            <FileText size={20} /> Extract Script
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-full overflow-hidden bg-background">
+            {/* Left: Background Queue */}
+            <div className="w-72 bg-surface border-r border-border flex flex-col flex-shrink-0 z-10">
+                <div className="p-4 border-b border-border bg-surfaceHighlight/50 backdrop-blur">
+                    <h3 className="font-bold text-xs text-muted uppercase tracking-wider flex items-center justify-between">
+                        <span>Backgrounds ({backgrounds.length})</span>
+                        <span className="text-primary">{bgIndex + 1} / {backgrounds.length}</span>
+                    </h3>
+                </div>
+                <div className="flex-1 overflow-y-auto p-3 space-y-2">
+                    {backgrounds.map((bg, idx) => (
+                        <div
+                            key={bg.id}
+                            onClick={() => { setBgIndex(idx); setCompareMode(false); }}
+                            className={`
+                                group flex items-start gap-3 p-2.5 rounded-xl cursor-pointer transition-all border
+                                ${idx === bgIndex
+                                    ? 'bg-primary/10 border-primary shadow-lg shadow-primary/5'
+                                    : 'bg-surfaceHighlight/30 border-transparent hover:bg-surfaceHighlight hover:border-border'}
+                            `}
+                        >
+                            <div className="relative w-14 h-14 flex-shrink-0">
+                                {bg.url ? (
+                                    <img src={bg.url} className="w-full h-full rounded-lg bg-black object-cover" alt="" />
+                                ) : (
+                                    <div className="w-full h-full rounded-lg bg-black flex items-center justify-center">
+                                        <Mountain size={18} className="text-muted opacity-50" />
+                                    </div>
+                                )}
+                                {idx === bgIndex && <div className="absolute inset-0 rounded-lg ring-2 ring-primary ring-inset"></div>}
+                            </div>
+                            <div className="flex-1 min-w-0 flex flex-col justify-center h-14">
+                                <div className={`text-sm font-medium truncate mb-1 ${idx === bgIndex ? 'text-white' : 'text-gray-400 group-hover:text-white'}`}>
+                                    {bg.locationId}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    {bg.status === 'approved' && <div className="flex items-center gap-1 text-[10px] bg-success/10 text-success px-1.5 py-0.5 rounded font-bold uppercase"><CheckCircle2 size={10} /> Approved</div>}
+                                    {bg.status === 'rejected' && <div className="flex items-center gap-1 text-[10px] bg-danger/10 text-danger px-1.5 py-0.5 rounded font-bold uppercase"><XCircle size={10} /> Rejected</div>}
+                                    {bg.status === 'pending' && <div className="flex items-center gap-1 text-[10px] bg-background text-muted px-1.5 py-0.5 rounded font-bold uppercase"><RefreshCcw size={10} /> Pending</div>}
+                                    <span className="text-[10px] text-muted uppercase">{bg.timeOfDay}</span>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                <div className="p-4 border-t border-border bg-surface">
+                    <label className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white py-3 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors border border-white/10 cursor-pointer">
+                        <Upload size={14} /> Upload Backgrounds
+                        <input type="file" multiple accept="image/*" className="hidden" onChange={handleBackgroundUpload} />
+                    </label>
+                </div>
+            </div>
+
+            {/* Center: Viewer */}
+            <div className="flex-1 flex flex-col bg-[#0c0c0e] relative min-w-0">
+                <div className="h-16 bg-surface border-b border-border flex items-center justify-between px-6 shadow-sm z-20">
+                    <div className="font-mono text-sm text-white truncate max-w-xl flex items-center gap-2">
+                        <Mountain size={16} className="text-primary"/>
+                        {current.name}
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setShowCheatSheet(true)}
+                            className="h-9 px-3 flex items-center gap-2 rounded-lg bg-surfaceHighlight hover:bg-border text-muted hover:text-white text-xs transition-colors"
+                            title="Keyboard shortcuts"
+                        >
+                            <Keyboard size={16} /> <Kbd combo={CHEAT_SHEET_KEY} />
+                        </button>
+                        <button
+                            onClick={() => setBgIndex(Math.max(0, bgIndex - 1))}
+                            disabled={bgIndex === 0}
+                            className="w-9 h-9 flex items-center justify-center rounded-lg bg-surfaceHighlight hover:bg-border text-white disabled:opacity-30 disabled:hover:bg-surfaceHighlight transition-colors"
+                        >
+                            <ChevronLeft size={20} />
+                        </button>
+                        <button
+                            onClick={() => setBgIndex(Math.min(backgrounds.length - 1, bgIndex + 1))}
+                            disabled={bgIndex === backgrounds.length - 1}
+                            className="w-9 h-9 flex items-center justify-center rounded-lg bg-surfaceHighlight hover:bg-border text-white disabled:opacity-30 disabled:hover:bg-surfaceHighlight transition-colors"
+                        >
+                            <ChevronRight size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 p-8 flex items-center justify-center relative overflow-hidden">
+                    {isRegenerating ? (
+                        <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center animate-in fade-in duration-300">
+                            <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mb-6"></div>
+                            <div className="text-white text-lg font-medium">Generating background...</div>
+                            <div className="text-muted text-sm mt-2">Sending prompt to {backendUrl}</div>
+                            <button
+                                onClick={() => regenAbortRef.current?.abort()}
+                                className="mt-6 px-5 py-2 rounded-lg border border-white/20 text-white text-xs font-bold uppercase tracking-wider hover:bg-white/10 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    ) : null}
+
+                    {regenError && <BackendErrorBanner error={regenError} onDismiss={() => setRegenError(null)} />}
+
+                    <div className="relative w-full h-full flex items-center justify-center">
+                        {compareMode && current.oldUrl && current.url ? (
+                            <ComparisonView oldUrl={current.oldUrl} newUrl={current.url} />
+                        ) : current.url ? (
+                            <img
+                                src={current.url}
+                                className="max-w-full max-h-full object-contain shadow-2xl rounded-lg border border-border/50"
+                                alt="Background Preview"
+                            />
+                        ) : (
+                            <div className="flex flex-col items-center text-muted">
+                                <Mountain size={64} className="opacity-30 mb-4" />
+                                <div className="text-sm">No render yet. Upload one or Regenerate from the prompt.</div>
+                            </div>
+                        )}
+
+                        {current.status !== 'pending' && (
+                            <div className={`
+                                absolute top-4 right-4 px-4 py-2 rounded-full font-bold text-sm uppercase tracking-wider shadow-lg backdrop-blur-md border
+                                ${current.status === 'approved' ? 'bg-success/20 border-success/50 text-success' : 'bg-danger/20 border-danger/50 text-danger'}
+                            `}>
+                                {current.status}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {backendOffline && <BackendOfflineNotice health={backendHealth} onRetry={recheckBackend} />}
+
+                {/* Toolbar */}
+                <div className="h-24 bg-surface border-t border-border flex items-center justify-center gap-6 px-8 z-20">
+                    <button
+                        onClick={() => setBackgroundStatus('approved')}
+                        disabled={!current.url}
+                        className="flex-1 max-w-[220px] h-12 bg-success hover:bg-emerald-500 text-white font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg shadow-success/20 flex items-center justify-center gap-2 text-sm uppercase tracking-wide disabled:opacity-50 disabled:scale-100"
+                    >
+                        <CheckCircle2 size={20} /> Approve
+                    </button>
+
+                    <button
+                        onClick={handleRegenerateBackground}
+                        disabled={isRegenerating || backendOffline || !current.prompt}
+                        title={backendOffline ? 'Backend offline' : undefined}
+                        className="flex-1 max-w-[220px] h-12 bg-primary hover:bg-primaryHover text-white font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg shadow-primary/20 flex items-center justify-center gap-2 text-sm uppercase tracking-wide disabled:opacity-50 disabled:scale-100"
+                    >
+                        <RefreshCcw size={20} /> Regenerate
+                    </button>
+
+                    {current.oldUrl && (
+                        <button
+                            onClick={() => setCompareMode(!compareMode)}
+                            className={`flex-1 max-w-[220px] h-12 border-2 font-bold rounded-xl transition-all active:scale-95 flex items-center justify-center gap-2 text-sm uppercase tracking-wide ${compareMode ? 'bg-white text-black border-white' : 'border-white/20 text-white hover:bg-white/10'}`}
+                        >
+                            <SplitSquareHorizontal size={20} /> Compare
+                        </button>
+                    )}
+
+                    <button
+                        onClick={() => setBackgroundStatus('rejected')}
+                        className="flex-1 max-w-[220px] h-12 bg-surfaceHighlight hover:bg-danger text-white hover:text-white border border-border hover:border-danger font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg flex items-center justify-center gap-2 text-sm uppercase tracking-wide group"
+                    >
+                        <XCircle size={20} className="text-danger group-hover:text-white transition-colors" /> Reject
+                    </button>
+                </div>
+            </div>
+
+            {/* Right: Context */}
+            <div className="w-80 bg-surface border-l border-border flex flex-col flex-shrink-0 overflow-y-auto z-10 shadow-xl">
+                <div className="p-5 border-b border-border">
+                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-3 flex items-center gap-2">
+                        <FileText size={14} /> Background Prompt
+                    </h3>
+                    <div className="relative">
+                        <textarea
+                            className="w-full h-40 bg-[#0c0c0e] border border-border rounded-lg p-3 text-xs font-mono text-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-none leading-relaxed"
+                            value={current.prompt}
+                            placeholder="Describe the location for regeneration..."
+                            onChange={(e) => {
+                                const updated = [...backgrounds];
+                                updated[bgIndex] = { ...current, prompt: e.target.value };
+                                setBackgrounds(updated);
+                            }}
+                        />
+                        <div className="absolute bottom-2 right-2">
+                            <button
+                                onClick={resetBackgroundPrompt}
+                                className="p-1.5 bg-surface border border-border rounded hover:border-primary text-muted hover:text-primary transition-colors"
+                                title={`Reset Prompt (${formatCombo(hotkeys.resetPrompt)})`}
+                            >
+                                <RefreshCcw size={12} />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="p-5 flex-1">
+                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-4 flex items-center gap-2">
+                        <AlertCircle size={14} /> Scene Context
+                    </h3>
+                    <div className="space-y-3">
+                         <div className="bg-background border border-border rounded-lg p-3">
+                            <div className="text-[10px] text-muted uppercase font-bold mb-1">Location</div>
+                            <div className="text-xs font-mono text-primary bg-primary/10 inline-block px-1.5 py-0.5 rounded">{current.locationId}</div>
+                         </div>
+                         <div className="bg-background border border-border rounded-lg p-3">
+                            <div className="text-[10px] text-muted uppercase font-bold mb-1">Time of Day</div>
+                            <div className="text-xs font-mono text-gray-300">{current.timeOfDay}</div>
+                         </div>
+                         <div className="bg-background border border-border rounded-lg p-3">
+                            <div className="text-[10px] text-muted uppercase font-bold mb-1">Linked Scene</div>
+                            <div className="text-xs font-mono text-gray-400">
+                                {current.chapter > 0 ? `Chap ${current.chapter}_${current.scene}` : 'Not linked to script'}
                             </div>
-                        </div>
-                        <div className="px-3 py-1 bg-surfaceHighlight rounded text-xs text-white font-medium">
-                            {promptData.length > 0 ? `${promptData.length} entries active` : 'Empty'}
-                        </div>
+                         </div>
                     </div>
                 </div>
             </div>
         </div>
-    </div>
-  );
+    );
+  };
 
-  const renderExtraction = () => (
-    <div className="p-8 h-full flex flex-col max-w-7xl mx-auto">
-        <div className="mb-6">
-            <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
-                <FileText className="text-primary" /> 
-                Asset Extraction Center
-            </h2>
-            <p className="text-muted text-sm mt-1">Convert screenplay documents into structured asset lists.</p>
-        </div>
-        
-        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-8 min-h-0">
-            {/* Left: Upload Area */}
-            <div className="bg-surface border border-border rounded-xl p-8 flex flex-col items-center justify-center text-center shadow-lg">
-                {!docxFile ? (
-                    <label className="w-full h-full min-h-[300px] flex flex-col items-center justify-center border-2 border-dashed border-border rounded-xl hover:border-primary hover:bg-surfaceHighlight cursor-pointer transition-all p-12 group">
-                        <div className="w-20 h-20 bg-surfaceHighlight rounded-full flex items-center justify-center mb-6 group-hover:bg-primary/20 transition-colors">
-                            <FileText size={40} className="text-muted group-hover:text-primary transition-colors" />
-                        </div>
-                        <h3 className="text-xl font-bold mb-2 text-white">Upload Script (.docx)</h3>
-                        <p className="text-muted mb-8 max-w-sm">Drag and drop your screenplay file here to begin the analysis and extraction process.</p>
-                        <span className="bg-primary hover:bg-primaryHover text-white px-8 py-3 rounded-lg font-bold transition-all transform group-hover:scale-105 shadow-lg shadow-primary/20">
-                            Select File
-                        </span>
-                        <input type="file" accept=".docx" className="hidden" onChange={handleDocxUpload} />
-                    </label>
-                ) : (
-                    <div className="w-full max-w-md animate-in fade-in zoom-in duration-300">
-                        <div className="bg-background p-6 rounded-xl border border-border mb-8 flex items-center gap-4 relative overflow-hidden group">
-                            <div className="absolute left-0 top-0 bottom-0 w-1 bg-primary"></div>
-                            <FileText size={32} className="text-primary" />
-                            <div className="text-left flex-1 overflow-hidden">
-                                <div className="font-bold truncate text-white text-lg">{docxFile.name}</div>
-                                <div className="text-xs text-muted">{(docxFile.size / 1024).toFixed(1)} KB • Word Document</div>
-                            </div>
-                            <button onClick={() => setDocxFile(null)} className="p-2 hover:bg-surfaceHighlight rounded-full text-muted hover:text-danger transition-colors">
-                                <XCircle size={24} />
-                            </button>
-                        </div>
-                        <button 
-                            onClick={handleSimulateExtraction}
-                            disabled={isExtracting}
-                            className={`w-full py-4 rounded-xl font-bold flex items-center justify-center gap-3 text-lg shadow-xl transition-all ${
-                                isExtracting ? 'bg-surfaceHighlight text-muted cursor-wait' : 'bg-primary hover:bg-primaryHover text-white hover:scale-[1.02]'
+  const renderAudio = () => {
+    const visible = audioCues.filter(cue => audioFilter === 'all' || cue.kind === audioFilter);
+    const attached = audioCues.filter(cue => cue.url).length;
+
+    return (
+        <div className="p-8 h-full flex flex-col max-w-7xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <Music className="text-primary" />
+                        Audio Cue Sheet
+                    </h2>
+                    <p className="text-muted text-sm mt-1">BGM, SFX and voice cues from the screenplay. {attached} / {audioCues.length} have audio attached.</p>
+                </div>
+                <div className="flex items-center gap-1 bg-surface border border-border rounded-lg p-1">
+                    {(['all', 'bgm', 'sfx', 'voice'] as const).map(kind => (
+                        <button
+                            key={kind}
+                            onClick={() => setAudioFilter(kind)}
+                            className={`px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider transition-colors ${
+                                audioFilter === kind ? 'bg-primary text-white' : 'text-muted hover:text-white'
                             }`}
                         >
-                            {isExtracting ? (
-                                <>
-                                    <div className="w-5 h-5 border-2 border-muted border-t-white rounded-full animate-spin"></div>
-                                    Analyzing Document...
-                                </>
-                            ) : (
-                                <>
-                                    <PlayCircle size={24} /> Start Extraction
-                                </>
-                            )}
+                            {kind === 'all' ? 'All' : AUDIO_KIND_META[kind].label}
                         </button>
+                    ))}
+                </div>
+            </div>
+
+            {audioCues.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-muted flex-col">
+                    <div className="w-24 h-24 bg-surfaceHighlight rounded-full flex items-center justify-center mb-6">
+                        <Music size={40} className="text-muted opacity-50"/>
                     </div>
-                )}
+                    <div className="text-2xl font-bold text-white">No Audio Cues</div>
+                    <p className="text-sm mt-2 max-w-xs text-center text-gray-400">Extract a screenplay with [bgm], [sfx] or [voice] tags to build the cue sheet.</p>
+                </div>
+            ) : (
+                <div className="flex-1 min-h-0 overflow-y-auto bg-surface border border-border rounded-xl divide-y divide-border">
+                    {visible.map(cue => {
+                        const meta = AUDIO_KIND_META[cue.kind];
+                        return (
+                            <div key={cue.id} className="flex items-center gap-4 p-4 hover:bg-surfaceHighlight/30 transition-colors">
+                                <div className={`flex items-center gap-1.5 text-[10px] font-bold uppercase px-2 py-1 rounded border w-20 justify-center flex-shrink-0 ${meta.className}`}>
+                                    <meta.icon size={12} /> {meta.label}
+                                </div>
+                                <div className="w-24 flex-shrink-0 text-xs font-mono text-muted">
+                                    Chap {cue.chapter}_{cue.scene}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm text-white truncate" title={cue.cue}>{cue.cue}</div>
+                                    {cue.file && <div className="text-[10px] text-muted font-mono truncate">{cue.file.name}</div>}
+                                </div>
+                                <div className="w-72 flex-shrink-0">
+                                    {cue.url ? (
+                                        <audio src={cue.url} controls className="w-full h-8" />
+                                    ) : (
+                                        <div className="text-xs text-muted italic">No audio attached</div>
+                                    )}
+                                </div>
+                                <label className="p-2 rounded-lg bg-surfaceHighlight hover:bg-border text-muted hover:text-white cursor-pointer transition-colors" title="Attach audio file">
+                                    <Paperclip size={16} />
+                                    <input type="file" accept="audio/*" className="hidden" onChange={(e) => handleAudioAttach(cue.id, e)} />
+                                </label>
+                                <button
+                                    onClick={() => setAudioStatus(cue.id, 'approved')}
+                                    disabled={!cue.url}
+                                    className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${cue.status === 'approved' ? 'bg-success text-white' : 'bg-surfaceHighlight text-success hover:bg-success/20'}`}
+                                    title="Approve"
+                                >
+                                    <CheckCircle2 size={16} />
+                                </button>
+                                <button
+                                    onClick={() => setAudioStatus(cue.id, 'rejected')}
+                                    className={`p-2 rounded-lg transition-colors ${cue.status === 'rejected' ? 'bg-danger text-white' : 'bg-surfaceHighlight text-danger hover:bg-danger/20'}`}
+                                    title="Reject"
+                                >
+                                    <XCircle size={16} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+  };
+
+  const renderRetry = () => {
+    const pendingCount = retryQueue.filter(r => r.state === 'queued' || r.state === 'failed').length;
+    const doneCount = retryQueue.filter(r => r.state === 'succeeded').length;
+
+    if (retryQueue.length === 0) {
+        return (
+            <div className="flex items-center justify-center h-full text-muted flex-col animate-in fade-in zoom-in duration-300">
+                <div className="w-24 h-24 bg-surfaceHighlight rounded-full flex items-center justify-center mb-6">
+                   <RefreshCcw size={40} className="text-muted opacity-50"/>
+                </div>
+                <div className="text-2xl font-bold text-white">Retry Queue Empty</div>
+                <p className="text-sm mt-2 max-w-xs text-center text-gray-400">Rejected images and failed regenerations will appear here automatically for batch regeneration.</p>
             </div>
+        );
+    }
 
-            {/* Right: Console Log */}
-            <div className="bg-surface border border-border rounded-xl p-0 flex flex-col overflow-hidden shadow-lg h-full">
-                <div className="px-6 py-4 border-b border-border bg-surfaceHighlight flex items-center justify-between">
-                    <h3 className="text-sm font-bold uppercase tracking-wider text-muted flex items-center gap-2">
-                        <Terminal size={14} /> Process Log
-                    </h3>
-                    {isExtracting && <div className="text-xs text-primary animate-pulse font-mono">● Running</div>}
+    return (
+        <div className="p-8 h-full flex flex-col max-w-7xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <RefreshCcw className="text-primary" />
+                        Retry Queue
+                    </h2>
+                    <p className="text-muted text-sm mt-1">{pendingCount} waiting · {doneCount} sent back to QC</p>
                 </div>
-                <div className="flex-1 bg-[#0c0c0e] p-6 font-mono text-sm overflow-y-auto space-y-3">
-                    {extractionLog.length === 0 ? (
-                        <div className="h-full flex flex-col items-center justify-center text-muted opacity-30">
-                            <Terminal size={48} className="mb-4" />
-                            <div>Waiting for input...</div>
-                        </div>
+                <div className="flex items-end gap-3">
+                    {([
+                        { key: 'concurrency', label: 'Parallel', min: 1, max: 8, step: 1 },
+                        { key: 'retries', label: 'Retries', min: 0, max: 5, step: 1 },
+                        { key: 'backoffMs', label: 'Backoff (ms)', min: 250, max: 30000, step: 250 }
+                    ] as const).map(field => (
+                        <label key={field.key} className="flex flex-col text-[10px] font-bold text-muted uppercase tracking-wider">
+                            {field.label}
+                            <input
+                                type="number"
+                                min={field.min}
+                                max={field.max}
+                                step={field.step}
+                                value={retrySettings[field.key]}
+                                disabled={isRetryRunning}
+                                onChange={(e) => {
+                                    const value = Math.max(field.min, Math.min(field.max, Number(e.target.value) || field.min));
+                                    setRetrySettings(p => ({ ...p, [field.key]: value }));
+                                }}
+                                className="mt-1 w-24 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-white focus:border-primary outline-none font-mono normal-case disabled:opacity-50"
+                            />
+                        </label>
+                    ))}
+                    {isRetryRunning ? (
+                        <button
+                            onClick={() => retryAbortRef.current?.abort()}
+                            className="h-9 px-4 rounded-lg bg-danger/20 text-danger border border-danger/40 text-xs font-bold uppercase tracking-wider flex items-center gap-2 hover:bg-danger/30 transition-colors"
+                        >
+                            <Square size={12} /> Stop
+                        </button>
                     ) : (
-                        extractionLog.map((log, i) => (
-                            <div key={i} className="flex items-start gap-3 animate-in slide-in-from-left-2 duration-200">
-                                <span className="text-primary font-bold select-none">{`>`}</span>
-                                <span className="text-gray-300">{log}</span>
-                            </div>
-                        ))
-                    )}
-                    {/* Fake cursor */}
-                    {isExtracting && (
-                        <div className="w-2 h-4 bg-primary animate-pulse inline-block align-middle"></div>
+                        <button
+                            onClick={handleRunRetryBatch}
+                            disabled={pendingCount === 0 || backendOffline}
+                            title={backendOffline ? 'Backend offline' : undefined}
+                            className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors disabled:opacity-40"
+                        >
+                            <PlayCircle size={14} /> Regenerate {pendingCount}
+                        </button>
                     )}
+                    <button
+                        onClick={() => setRetryQueue(prev => prev.filter(r => r.state !== 'succeeded'))}
+                        disabled={doneCount === 0}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-40"
+                    >
+                        Clear Done
+                    </button>
                 </div>
             </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto bg-surface border border-border rounded-xl divide-y divide-border">
+                {retryQueue.map(item => {
+                    const img = images.find(i => i.id === item.imageId);
+                    return (
+                        <div key={item.imageId} className="flex items-center gap-4 p-4 hover:bg-surfaceHighlight/30 transition-colors">
+                            {img ? (
+                                <img src={img.url} className="w-14 h-14 rounded-lg bg-black object-cover flex-shrink-0" alt="" />
+                            ) : (
+                                <div className="w-14 h-14 rounded-lg bg-black flex-shrink-0" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-white truncate">{img?.name || `#${item.imageId}`}</div>
+                                <div className="text-xs text-muted truncate">{img?.prompt}</div>
+                                {img?.rejection && item.reason === 'rejected' && (
+                                    <div className="text-[11px] text-danger truncate mt-0.5">{describeRejection(img.rejection, rejectionReasons)}</div>
+                                )}
+                                {item.error && <div className="text-[11px] text-danger font-mono truncate mt-0.5" title={item.error}>{item.error}</div>}
+                            </div>
+                            <span className="text-[10px] font-bold uppercase text-muted w-16 text-center">
+                                {item.reason === 'rejected' ? 'Rejected' : 'API error'}
+                            </span>
+                            <div className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded font-bold uppercase w-28 justify-center ${RETRY_STATE_META[item.state]}`}>
+                                {item.state === 'running' && <div className="w-2.5 h-2.5 border border-primary border-t-transparent rounded-full animate-spin"></div>}
+                                {item.state}
+                                {item.attempts > 0 && <span className="font-mono normal-case">· {item.attempts}/{retrySettings.retries + 1}</span>}
+                            </div>
+                            <button
+                                onClick={() => {
+                                    const idx = images.findIndex(i => i.id === item.imageId);
+                                    if (idx < 0) return;
+                                    setQcIndex(idx);
+                                    setQcTab('cg');
+                                    setCurrentView('qc');
+                                }}
+                                disabled={!img}
+                                className="p-2 rounded-lg bg-surfaceHighlight hover:bg-border text-muted hover:text-white transition-colors disabled:opacity-30"
+                                title="Open in QC Studio"
+                            >
+                                <ImageIcon size={16} />
+                            </button>
+                            <button
+                                onClick={() => setRetryQueue(prev => prev.filter(r => r.imageId !== item.imageId))}
+                                disabled={item.state === 'running'}
+                                className="p-2 rounded-lg bg-surfaceHighlight hover:bg-danger/20 text-muted hover:text-danger transition-colors disabled:opacity-30"
+                                title="Remove from queue"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+  };
+
+  const renderQCStudio = () => (
+    <div className="flex flex-col h-full">
+        <div className="h-11 bg-surface border-b border-border flex items-end gap-1 px-4 flex-shrink-0">
+            {([
+                { id: 'cg', label: 'CG Images', icon: ImageIcon, count: images.length },
+                { id: 'backgrounds', label: 'Backgrounds', icon: Mountain, count: backgrounds.length }
+            ] as const).map(tab => (
+                <button
+                    key={tab.id}
+                    onClick={() => { setQcTab(tab.id); setCompareMode(false); setRegenError(null); }}
+                    className={`flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider border-b-2 transition-colors ${
+                        qcTab === tab.id ? 'border-primary text-white' : 'border-transparent text-muted hover:text-white'
+                    }`}
+                >
+                    <tab.icon size={14} /> {tab.label}
+                    <span className="text-[10px] bg-surfaceHighlight px-1.5 py-0.5 rounded-full">{tab.count}</span>
+                </button>
+            ))}
+        </div>
+        <div className="flex-1 min-h-0">
+            {qcTab === 'cg' ? renderQC() : renderBackgroundQC()}
         </div>
     </div>
   );
 
-  const renderQC = () => {
-    const current = images[qcIndex];
-    if (!current) {
-        return (
-            <div className="h-full flex flex-col items-center justify-center text-center p-8 bg-background">
-                <div className="bg-surface p-16 rounded-2xl border border-border max-w-xl w-full shadow-2xl">
-                    <div className="w-24 h-24 bg-surfaceHighlight rounded-full flex items-center justify-center mx-auto mb-8">
-                         <ImageIcon size={48} className="text-muted" />
-                    </div>
-                    <h2 className="text-3xl font-bold mb-4 text-white">QC Studio Empty</h2>
-                    <p className="text-muted mb-10 text-lg">Load your generated assets or JSON prompt data to begin the quality control workflow.</p>
-                    <div className="flex gap-4 justify-center">
-                        <label className="bg-primary hover:bg-primaryHover text-white px-8 py-4 rounded-xl font-bold cursor-pointer transition-all flex items-center gap-2 shadow-lg hover:shadow-primary/30">
-                            <Upload size={20} /> Upload Images
-                            <input type="file" multiple accept="image/*" className="hidden" onChange={handleImageUpload} />
-                        </label>
-                        <label className="bg-surfaceHighlight hover:bg-surfaceHighlight/80 text-white px-8 py-4 rounded-xl font-bold cursor-pointer transition-all flex items-center gap-2 border border-border hover:border-white/20">
-                            <FileText size={20} /> Load JSON
-                            <input type="file" accept=".json" className="hidden" onChange={handleJSONUpload} />
-                        </label>
+  const renderCast = () => {
+    // Overlapping hits (e.g. "Raka" inside "mas Raka") keep the earliest, longest one
+    const highlights: { text: string, member?: CastMember }[] = [];
+    let cursor = 0;
+    findCastOccurrences(castTestPrompt, cast)
+        .sort((a, b) => a.index - b.index || b.length - a.length)
+        .forEach(hit => {
+            if (hit.index < cursor) return;
+            highlights.push({ text: castTestPrompt.slice(cursor, hit.index) });
+            highlights.push({ text: castTestPrompt.slice(hit.index, hit.index + hit.length), member: hit.member });
+            cursor = hit.index + hit.length;
+        });
+    highlights.push({ text: castTestPrompt.slice(cursor) });
+    const detected = detectCast(castTestPrompt, cast);
+
+    return (
+        <div className="p-8 h-full overflow-y-auto max-w-6xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <Users className="text-primary" />
+                        Cast Registry
+                    </h2>
+                    <p className="text-muted text-sm mt-1">Names and aliases used to detect characters in prompts. {cast.length} characters.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors cursor-pointer">
+                        <Upload size={14} /> Import
+                        <input type="file" accept=".json" onChange={handleCastImport} className="hidden" />
+                    </label>
+                    <button
+                        onClick={() => downloadBlob(new Blob([JSON.stringify(cast, null, 2)], { type: 'application/json' }), 'cast.json')}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors"
+                    >
+                        <Download size={14} /> Export
+                    </button>
+                    <button
+                        onClick={() => confirm('Replace the cast with the built-in defaults?') && setCast(DEFAULT_CAST)}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+                    >
+                        Reset
+                    </button>
+                    <button
+                        onClick={handleAddCastMember}
+                        className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors"
+                    >
+                        <Plus size={14} /> Add Character
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-surface border border-border rounded-xl p-5 mb-6">
+                <label className="text-[10px] font-bold text-muted uppercase tracking-wider block mb-2">Test a prompt</label>
+                <input
+                    type="text"
+                    value={castTestPrompt}
+                    onChange={(e) => setCastTestPrompt(e.target.value)}
+                    className="w-full bg-[#0c0c0e] border border-border rounded-lg px-3 py-2 text-sm text-white focus:border-primary outline-none"
+                />
+                <div className="mt-3 text-sm text-gray-300 leading-relaxed">
+                    {highlights.map((part, i) => part.member ? (
+                        <mark key={i} title={part.member.name} className="bg-primary/25 text-white rounded px-0.5">{part.text}</mark>
+                    ) : <span key={i}>{part.text}</span>)}
+                </div>
+                <div className="mt-2 text-xs text-muted">
+                    Detected: {detected.length > 0 ? detected.map(d => d.member.name).join(', ') : 'nobody'}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {cast.map(member => {
+                    const invalid = buildMatcher(member) === null;
+                    return (
+                        <div key={member.id} className="bg-surface border border-border rounded-xl p-4 flex gap-4">
+                            <label className="w-20 h-20 shrink-0 rounded-lg bg-black/40 border border-border overflow-hidden flex items-center justify-center cursor-pointer hover:border-primary transition-colors" title="Upload reference image">
+                                {member.referenceImage
+                                    ? <img src={member.referenceImage} alt={member.name} className="w-full h-full object-cover" />
+                                    : <ImageIcon size={20} className="text-muted" />}
+                                <input type="file" accept="image/*" onChange={(e) => handleCastReference(member.id, e)} className="hidden" />
+                            </label>
+                            <div className="flex-1 min-w-0 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={member.name}
+                                        onChange={(e) => updateCastMember(member.id, { name: e.target.value })}
+                                        className="flex-1 min-w-0 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-sm font-bold text-white focus:border-primary outline-none"
+                                    />
+                                    <button
+                                        onClick={() => setCast(prev => prev.filter(m => m.id !== member.id))}
+                                        className="p-1.5 rounded hover:bg-danger/20 text-muted hover:text-danger transition-colors"
+                                        title="Remove character"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                <ListInput
+                                    values={member.aliases}
+                                    placeholder="Aliases, comma separated"
+                                    onCommit={(aliases) => updateCastMember(member.id, { aliases })}
+                                    className={`w-full bg-[#0c0c0e] border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none font-mono ${invalid ? 'border-danger' : 'border-border'}`}
+                                />
+                                {invalid && <div className="text-[10px] text-danger">Invalid pattern — this character is never detected.</div>}
+                                <div className="flex items-center gap-2 text-xs">
+                                    <select
+                                        value={member.matchMode}
+                                        onChange={(e) => updateCastMember(member.id, { matchMode: e.target.value as CastMember['matchMode'] })}
+                                        className="bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-gray-300 focus:border-primary outline-none"
+                                    >
+                                        <option value="word">Whole word</option>
+                                        <option value="substring">Substring</option>
+                                        <option value="regex">Regex aliases</option>
+                                    </select>
+                                    <select
+                                        value={member.defaultOutfit}
+                                        onChange={(e) => updateCastMember(member.id, { defaultOutfit: e.target.value })}
+                                        className="flex-1 min-w-0 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-gray-300 focus:border-primary outline-none"
+                                        title="Outfit used when the prompt does not name one"
+                                    >
+                                        <option value={DEFAULT_OUTFIT}>No default outfit</option>
+                                        {wardrobeFor(outfits, member.id).map(o => <option key={o.id} value={o.id}>{o.icon} {o.label}</option>)}
+                                    </select>
+                                    <label className="flex items-center gap-1.5 text-muted whitespace-nowrap">
+                                        <input
+                                            type="checkbox"
+                                            checked={member.caseSensitive}
+                                            onChange={(e) => updateCastMember(member.id, { caseSensitive: e.target.checked })}
+                                        />
+                                        Aa
+                                    </label>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+  };
+
+  const renderWardrobe = () => (
+        <div className="p-8 h-full overflow-y-auto max-w-6xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <Shirt className="text-primary" />
+                        Outfit Catalog
+                    </h2>
+                    <p className="text-muted text-sm mt-1">Keywords detect an outfit next to a character's name; prompt tokens are sent when it is forced.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => confirm('Replace the catalog with the built-in outfits?') && setOutfits(DEFAULT_OUTFITS)}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+                    >
+                        Reset
+                    </button>
+                    <button
+                        onClick={handleAddOutfit}
+                        className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors"
+                    >
+                        <Plus size={14} /> Add Outfit
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-surface border border-border rounded-xl p-5 mb-6">
+                <h3 className="text-[10px] font-bold text-muted uppercase tracking-wider mb-3">Wardrobes</h3>
+                <div className="space-y-2">
+                    {cast.map(member => (
+                        <div key={member.id} className="flex items-center gap-3 text-xs">
+                            <span className="w-24 shrink-0 font-bold text-white truncate">{member.name}</span>
+                            <div className="flex flex-wrap gap-1.5">
+                                {wardrobeFor(outfits, member.id).map(o => (
+                                    <span key={o.id} className={`px-2 py-0.5 rounded border ${o.id === member.defaultOutfit ? 'bg-primary/20 border-primary/30 text-primary' : 'bg-white/5 border-white/10 text-gray-300'}`}>
+                                        {o.icon} {o.label}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {outfits.map(outfit => (
+                    <div key={outfit.id} className="bg-surface border border-border rounded-xl p-4 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={outfit.icon}
+                                onChange={(e) => updateOutfit(outfit.id, { icon: e.target.value })}
+                                className="w-12 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-center text-sm focus:border-primary outline-none"
+                            />
+                            <input
+                                type="text"
+                                value={outfit.label}
+                                onChange={(e) => updateOutfit(outfit.id, { label: e.target.value })}
+                                className="flex-1 min-w-0 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-sm font-bold text-white focus:border-primary outline-none"
+                            />
+                            <span className="text-[10px] font-mono text-muted">{outfit.id}</span>
+                            <button
+                                onClick={() => setOutfits(prev => prev.filter(o => o.id !== outfit.id))}
+                                className="p-1.5 rounded hover:bg-danger/20 text-muted hover:text-danger transition-colors"
+                                title="Remove outfit"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                        <ListInput
+                            values={outfit.keywords}
+                            placeholder="Keywords, comma separated"
+                            onCommit={(keywords) => updateOutfit(outfit.id, { keywords })}
+                            className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none font-mono"
+                        />
+                        <textarea
+                            value={outfit.promptTokens}
+                            placeholder="Prompt tokens"
+                            rows={2}
+                            onChange={(e) => updateOutfit(outfit.id, { promptTokens: e.target.value })}
+                            className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none resize-none"
+                        />
+                        <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+                            <span className="text-muted uppercase font-bold tracking-wider mr-1">Worn by</span>
+                            {cast.map(member => {
+                                const allowed = outfit.characters.includes(member.id);
+                                return (
+                                    <button
+                                        key={member.id}
+                                        onClick={() => toggleOutfitCharacter(outfit, member.id)}
+                                        className={`px-2 py-0.5 rounded border transition-colors ${allowed ? 'bg-primary/20 border-primary/30 text-primary' : 'bg-white/5 border-white/10 text-muted hover:text-white'}`}
+                                    >
+                                        {member.name}
+                                    </button>
+                                );
+                            })}
+                            {outfit.characters.length === 0 && <span className="text-muted italic">everyone</span>}
+                        </div>
                     </div>
+                ))}
+            </div>
+        </div>
+  );
+
+  const renderLocations = () => {
+    const ranking = rankLocations(locationTestPrompt, locations);
+    const newId = locationIdFor(newLocationId);
+    const taken = !!newId && isLocationTaken(newId);
+    return (
+        <div className="p-8 h-full overflow-y-auto max-w-6xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <MapPin className="text-primary" />
+                        Location Library
+                    </h2>
+                    <p className="text-muted text-sm mt-1">Keywords rank locations for every prompt; children inherit their parent's keywords.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => confirm('Replace the library with the built-in locations?') && setLocations(DEFAULT_LOCATIONS)}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+                    >
+                        Reset
+                    </button>
+                    <input
+                        type="text"
+                        value={newLocationId}
+                        onChange={(e) => setNewLocationId(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddLocation()}
+                        placeholder="New location id, e.g. school_rooftop"
+                        title={taken ? `Location "${newId}" already exists` : 'Used as the backend setting'}
+                        className={`h-9 w-64 bg-[#0c0c0e] border rounded-lg px-3 text-xs text-white font-mono outline-none ${taken ? 'border-danger' : 'border-border focus:border-primary'}`}
+                    />
+                    <button
+                        onClick={handleAddLocation}
+                        disabled={!newId || taken}
+                        className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover disabled:opacity-40 disabled:hover:bg-primary text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors"
+                    >
+                        <Plus size={14} /> Add Location
+                    </button>
                 </div>
             </div>
-        );
-    }
 
-    const chars = detectCharactersFromPrompt(current.prompt);
-
-    return (
-        <div className="flex h-full overflow-hidden bg-background">
-            {/* Left: Thumbnail List */}
-            <div className="w-72 bg-surface border-r border-border flex flex-col flex-shrink-0 z-10">
-                <div className="p-4 border-b border-border bg-surfaceHighlight/50 backdrop-blur">
-                    <h3 className="font-bold text-xs text-muted uppercase tracking-wider flex items-center justify-between">
-                        <span>Queue ({images.length})</span>
-                        <span className="text-primary">{qcIndex + 1} / {images.length}</span>
-                    </h3>
+            <div className="bg-surface border border-border rounded-xl p-5 mb-6">
+                <label className="text-[10px] font-bold text-muted uppercase tracking-wider block mb-2">Test a prompt</label>
+                <input
+                    type="text"
+                    value={locationTestPrompt}
+                    onChange={(e) => setLocationTestPrompt(e.target.value)}
+                    className="w-full bg-[#0c0c0e] border border-border rounded-lg px-3 py-2 text-sm text-white focus:border-primary outline-none"
+                />
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                    {ranking.candidates.length === 0 ? (
+                        <span className="text-muted">No match · {GENERIC_LOCATION}</span>
+                    ) : ranking.candidates.map((c, i) => (
+                        <span key={c.location.id} title={`Matched: ${c.hits.join(', ')}`} className={`px-2 py-0.5 rounded border font-mono ${i === 0 ? 'bg-primary/20 border-primary/30 text-primary' : 'bg-white/5 border-white/10 text-muted'}`}>
+                            {c.location.id} · {c.score}
+                        </span>
+                    ))}
+                    {ranking.candidates.length > 0 && (
+                        <span className={`ml-auto font-bold uppercase text-[10px] ${CONFIDENCE_META[ranking.level]}`}>
+                            {ranking.level} confidence · {Math.round(ranking.confidence * 100)}%
+                        </span>
+                    )}
                 </div>
-                <div className="flex-1 overflow-y-auto p-3 space-y-2">
-                    {images.map((img, idx) => (
-                        <div 
-                            key={img.id}
-                            onClick={() => { setQcIndex(idx); setCompareMode(false); }}
-                            className={`
-                                group flex items-start gap-3 p-2.5 rounded-xl cursor-pointer transition-all border
-                                ${idx === qcIndex 
-                                    ? 'bg-primary/10 border-primary shadow-lg shadow-primary/5' 
-                                    : 'bg-surfaceHighlight/30 border-transparent hover:bg-surfaceHighlight hover:border-border'}
-                            `}
-                        >
-                            <div className="relative w-14 h-14 flex-shrink-0">
-                                <img src={img.url} className="w-full h-full rounded-lg bg-black object-cover" alt="" />
-                                {idx === qcIndex && <div className="absolute inset-0 rounded-lg ring-2 ring-primary ring-inset"></div>}
+            </div>
+
+            <div className="bg-surface border border-border rounded-xl divide-y divide-border">
+                {locations.map(location => {
+                    const depth = locationPath(locations, location.id).length - 1;
+                    return (
+                        <div key={location.id} className="p-4 grid grid-cols-12 gap-3 items-center text-xs">
+                            <div className="col-span-3 min-w-0" style={{ paddingLeft: depth * 16 }}>
+                                <input
+                                    type="text"
+                                    value={location.label}
+                                    onChange={(e) => updateLocation(location.id, { label: e.target.value })}
+                                    className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-sm font-bold text-white focus:border-primary outline-none"
+                                />
+                                <div className="mt-1 font-mono text-[10px] text-muted truncate">{location.id}</div>
                             </div>
-                            <div className="flex-1 min-w-0 flex flex-col justify-center h-14">
-                                <div className={`text-sm font-medium truncate mb-1 ${idx === qcIndex ? 'text-white' : 'text-gray-400 group-hover:text-white'}`}>
-                                    {img.name}
-                                </div>
-                                <div className="flex items-center gap-2">
-                                    {img.status === 'approved' && <div className="flex items-center gap-1 text-[10px] bg-success/10 text-success px-1.5 py-0.5 rounded font-bold uppercase"><CheckCircle2 size={10} /> Approved</div>}
-                                    {img.status === 'rejected' && <div className="flex items-center gap-1 text-[10px] bg-danger/10 text-danger px-1.5 py-0.5 rounded font-bold uppercase"><XCircle size={10} /> Rejected</div>}
-                                    {img.status === 'pending' && <div className="flex items-center gap-1 text-[10px] bg-background text-muted px-1.5 py-0.5 rounded font-bold uppercase"><RefreshCcw size={10} /> Pending</div>}
-                                </div>
+                            <ListInput
+                                values={location.keywords}
+                                placeholder="Keywords, comma separated"
+                                onCommit={(keywords) => updateLocation(location.id, { keywords })}
+                                className="col-span-4 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-gray-300 focus:border-primary outline-none font-mono"
+                            />
+                            <input
+                                type="number"
+                                value={location.priority}
+                                title="Priority"
+                                onChange={(e) => updateLocation(location.id, { priority: Number(e.target.value) || 0 })}
+                                className="col-span-1 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-white focus:border-primary outline-none font-mono"
+                            />
+                            <select
+                                value={location.parentId || ''}
+                                title="Parent location"
+                                onChange={(e) => updateLocation(location.id, { parentId: e.target.value || undefined })}
+                                className="col-span-2 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-gray-300 focus:border-primary outline-none"
+                            >
+                                <option value="">No parent</option>
+                                {locations
+                                    .filter(l => !locationPath(locations, l.id).some(p => p.id === location.id))
+                                    .map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                            </select>
+                            <div className="col-span-2 flex items-center gap-2">
+                                <select
+                                    value={location.backgroundId || ''}
+                                    title="Linked background"
+                                    onChange={(e) => updateLocation(location.id, { backgroundId: e.target.value || undefined })}
+                                    className="flex-1 min-w-0 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-gray-300 focus:border-primary outline-none"
+                                >
+                                    <option value="">No background</option>
+                                    {backgrounds.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => handleRemoveLocation(location.id)}
+                                    className="p-1.5 rounded hover:bg-danger/20 text-muted hover:text-danger transition-colors"
+                                    title="Remove location"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
                             </div>
                         </div>
-                    ))}
+                    );
+                })}
+            </div>
+        </div>
+    );
+  };
+
+  const renderMatching = () => {
+    const index = indexPrompts(promptData, matchingDraft);
+    const names = images.length > 0 ? images.map(img => img.name) : [matchingSample];
+    const preview = names.map(name => {
+        const key = parseFileKey(name, matchingDraft);
+        return { name, stem: stripVariants(name, matchingDraft), key, prompt: key ? index.get(shotKeyId(key)) : undefined };
+    });
+    const matchedCount = preview.filter(p => p.prompt !== undefined).length;
+    const dirty = JSON.stringify(matchingDraft) !== JSON.stringify(matching);
+
+    return (
+        <div className="p-8 h-full flex flex-col max-w-7xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <Regex className="text-primary" />
+                        Filename Matching
+                    </h2>
+                    <p className="text-muted text-sm mt-1">
+                        {images.length > 0 ? `${matchedCount} of ${images.length} images` : 'Sample file'} resolve to a prompt with these rules · {index.size} prompt keys loaded
+                    </p>
                 </div>
-                <div className="p-4 border-t border-border bg-surface">
-                    <button 
-                        onClick={() => {
-                            const approved = images.filter(i => i.status === 'approved');
-                            if(approved.length) alert(`Downloading ${approved.length} approved images...`);
-                            else alert("No approved images to download.");
-                        }}
-                        className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white py-3 rounded-lg text-xs font-bold uppercase tracking-wider transition-colors border border-white/10"
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setMatchingDraft(DEFAULT_MATCHING)}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors"
+                    >
+                        Defaults
+                    </button>
+                    <button
+                        onClick={() => setMatchingDraft(matching)}
+                        disabled={!dirty}
+                        className="h-9 px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-white text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-40"
                     >
-                        <Download size={14} /> Download Approved
+                        Discard
+                    </button>
+                    <button
+                        onClick={handleApplyMatching}
+                        disabled={!dirty && images.length === 0}
+                        className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors disabled:opacity-40"
+                    >
+                        <CheckCircle2 size={14} /> Apply
                     </button>
                 </div>
             </div>
 
-            {/* Center: Viewer */}
-            <div className="flex-1 flex flex-col bg-[#0c0c0e] relative min-w-0">
-                <div className="h-16 bg-surface border-b border-border flex items-center justify-between px-6 shadow-sm z-20">
-                    <div className="font-mono text-sm text-white truncate max-w-xl flex items-center gap-2">
-                        <ImageIcon size={16} className="text-primary"/>
-                        {current.name}
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 flex-1 min-h-0">
+                <div className="lg:col-span-2 space-y-4 overflow-y-auto">
+                    <div className="bg-surface border border-border rounded-xl p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-[10px] font-bold text-muted uppercase tracking-wider">Schemes · first match wins</h3>
+                            <button
+                                onClick={() => setMatchingDraft(prev => ({
+                                    ...prev,
+                                    schemes: [...prev.schemes, { id: `scheme_${Date.now().toString(36)}`, label: 'Custom', kind: 'template', pattern: '{chapter}_{scene}', enabled: true }]
+                                }))}
+                                className="text-xs text-primary hover:text-white flex items-center gap-1"
+                            >
+                                <Plus size={12} /> Add
+                            </button>
+                        </div>
+                        {matchingDraft.schemes.map((scheme, i) => {
+                            const invalid = compileScheme(scheme) === null;
+                            return (
+                                <div key={scheme.id} className="bg-background border border-border rounded-lg p-3 space-y-2">
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <input
+                                            type="checkbox"
+                                            checked={scheme.enabled}
+                                            onChange={(e) => updateScheme(scheme.id, { enabled: e.target.checked })}
+                                        />
+                                        <input
+                                            type="text"
+                                            value={scheme.label}
+                                            onChange={(e) => updateScheme(scheme.id, { label: e.target.value })}
+                                            className="flex-1 min-w-0 bg-transparent font-bold text-white outline-none"
+                                        />
+                                        <select
+                                            value={scheme.kind}
+                                            onChange={(e) => updateScheme(scheme.id, { kind: e.target.value as MatchScheme['kind'] })}
+                                            className="bg-[#0c0c0e] border border-border rounded px-1.5 py-1 text-gray-300 outline-none"
+                                        >
+                                            <option value="template">Template</option>
+                                            <option value="regex">Regex</option>
+                                        </select>
+                                        <button onClick={() => moveScheme(scheme.id, -1)} disabled={i === 0} className="text-muted hover:text-white disabled:opacity-30" title="Try earlier">↑</button>
+                                        <button onClick={() => moveScheme(scheme.id, 1)} disabled={i === matchingDraft.schemes.length - 1} className="text-muted hover:text-white disabled:opacity-30" title="Try later">↓</button>
+                                        <button
+                                            onClick={() => setMatchingDraft(prev => ({ ...prev, schemes: prev.schemes.filter(s => s.id !== scheme.id) }))}
+                                            className="text-muted hover:text-danger"
+                                            title="Remove scheme"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    </div>
+                                    <input
+                                        type="text"
+                                        value={scheme.pattern}
+                                        onChange={(e) => updateScheme(scheme.id, { pattern: e.target.value })}
+                                        className={`w-full bg-[#0c0c0e] border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none font-mono ${invalid ? 'border-danger' : 'border-border'}`}
+                                    />
+                                    {invalid && <div className="text-[10px] text-danger">Invalid regular expression.</div>}
+                                </div>
+                            );
+                        })}
+                        <p className="text-[10px] text-muted leading-relaxed">
+                            Templates use <code className="text-gray-300">{'{chapter}'}</code> and <code className="text-gray-300">{'{scene}'}</code>; underscores, dashes and spaces match any separator.
+                            Regexes need <code className="text-gray-300">{'(?<chapter>\\d+)'}</code> and <code className="text-gray-300">{'(?<scene>\\d+)'}</code> groups.
+                        </p>
                     </div>
-                    <div className="flex items-center gap-2">
-                        <button 
-                            onClick={() => setQcIndex(Math.max(0, qcIndex - 1))}
-                            disabled={qcIndex === 0}
-                            className="w-9 h-9 flex items-center justify-center rounded-lg bg-surfaceHighlight hover:bg-border text-white disabled:opacity-30 disabled:hover:bg-surfaceHighlight transition-colors"
-                        >
-                            <ChevronLeft size={20} />
-                        </button>
-                        <button 
-                            onClick={() => setQcIndex(Math.min(images.length - 1, qcIndex + 1))}
-                            disabled={qcIndex === images.length - 1}
-                            className="w-9 h-9 flex items-center justify-center rounded-lg bg-surfaceHighlight hover:bg-border text-white disabled:opacity-30 disabled:hover:bg-surfaceHighlight transition-colors"
-                        >
-                            <ChevronRight size={20} />
-                        </button>
+
+                    <div className="bg-surface border border-border rounded-xl p-4">
+                        <h3 className="text-[10px] font-bold text-muted uppercase tracking-wider mb-2">Variant suffixes</h3>
+                        <ListInput
+                            lines
+                            values={matchingDraft.variantSuffixes}
+                            placeholder="One pattern per line"
+                            onCommit={(variantSuffixes) => setMatchingDraft(prev => ({ ...prev, variantSuffixes }))}
+                            className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none font-mono resize-none"
+                        />
+                        <p className="text-[10px] text-muted mt-2">Regexes stripped from the end of a file name before matching, one per line, e.g. <code className="text-gray-300">_v\d+</code> for chap3_5_v2.png.</p>
                     </div>
                 </div>
 
-                <div className="flex-1 p-8 flex items-center justify-center relative overflow-hidden">
-                    {/* Loading Overlay */}
-                    {isRegenerating ? (
-                        <div className="absolute inset-0 bg-black/80 backdrop-blur-sm z-50 flex flex-col items-center justify-center animate-in fade-in duration-300">
-                            <div className="w-16 h-16 border-4 border-primary border-t-transparent rounded-full animate-spin mb-6"></div>
-                            <div className="text-white text-lg font-medium">Generating variation...</div>
-                            <div className="text-muted text-sm mt-2">Sending prompt to {backendUrl}</div>
-                        </div>
-                    ) : null}
-
-                    {/* Image Area */}
-                    <div className="relative w-full h-full flex items-center justify-center">
-                        {compareMode && current.oldUrl ? (
-                            <ComparisonView oldUrl={current.oldUrl} newUrl={current.url} />
-                        ) : (
-                            <img 
-                                src={current.url} 
-                                className="max-w-full max-h-full object-contain shadow-2xl rounded-lg border border-border/50" 
-                                alt="Preview" 
+                <div className="lg:col-span-3 bg-surface border border-border rounded-xl flex flex-col min-h-0">
+                    <div className="p-4 border-b border-border flex items-center justify-between gap-4">
+                        <h3 className="text-[10px] font-bold text-muted uppercase tracking-wider">Preview</h3>
+                        {images.length === 0 && (
+                            <input
+                                type="text"
+                                value={matchingSample}
+                                onChange={(e) => setMatchingSample(e.target.value)}
+                                placeholder="Try a file name"
+                                className="flex-1 max-w-xs bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-white focus:border-primary outline-none font-mono"
                             />
                         )}
-                        
-                        {/* Status Watermark if decided */}
-                        {current.status !== 'pending' && (
-                            <div className={`
-                                absolute top-4 right-4 px-4 py-2 rounded-full font-bold text-sm uppercase tracking-wider shadow-lg backdrop-blur-md border
-                                ${current.status === 'approved' ? 'bg-success/20 border-success/50 text-success' : 'bg-danger/20 border-danger/50 text-danger'}
-                            `}>
-                                {current.status}
+                    </div>
+                    <div className="flex-1 overflow-y-auto divide-y divide-border">
+                        {preview.map(row => (
+                            <div key={row.name} className="px-4 py-2.5 grid grid-cols-12 gap-3 items-center text-xs">
+                                <div className="col-span-4 min-w-0">
+                                    <div className="font-mono text-white truncate" title={row.name}>{row.name}</div>
+                                    {row.stem !== row.name.replace(/\.[a-z0-9]{2,5}$/i, '') && <div className="font-mono text-[10px] text-muted truncate">→ {row.stem}</div>}
+                                </div>
+                                <div className="col-span-3 font-mono">
+                                    {row.key ? (
+                                        <span className="text-primary">{shotKeyId(row.key)} <span className="text-muted">· {matchingDraft.schemes.find(s => s.id === row.key!.schemeId)?.label}</span></span>
+                                    ) : <span className="text-danger">no key</span>}
+                                </div>
+                                <div className={`col-span-5 truncate ${row.prompt !== undefined ? 'text-gray-300' : 'text-muted italic'}`} title={row.prompt}>
+                                    {row.prompt ?? (row.key ? 'No prompt with this key' : '—')}
+                                </div>
                             </div>
-                        )}
+                        ))}
                     </div>
                 </div>
+            </div>
+        </div>
+    );
+  };
 
-                {/* Toolbar */}
-                <div className="h-24 bg-surface border-t border-border flex items-center justify-center gap-6 px-8 z-20">
-                    <button 
-                        onClick={() => {
-                            const updated = [...images];
-                            updated[qcIndex].status = 'approved';
-                            setImages(updated);
-                            if (qcIndex < images.length - 1) setQcIndex(qcIndex + 1);
-                        }}
-                        className="flex-1 max-w-[220px] h-12 bg-success hover:bg-emerald-500 text-white font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg shadow-success/20 flex items-center justify-center gap-2 text-sm uppercase tracking-wide"
-                    >
-                        <CheckCircle2 size={20} /> Approve
-                    </button>
-                    
-                    <button 
-                        onClick={handleRegenerate}
-                        disabled={isRegenerating}
-                        className="flex-1 max-w-[220px] h-12 bg-primary hover:bg-primaryHover text-white font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg shadow-primary/20 flex items-center justify-center gap-2 text-sm uppercase tracking-wide disabled:opacity-50 disabled:scale-100"
-                    >
-                        <RefreshCcw size={20} /> Regenerate
-                    </button>
+  const renderReconcile = () => {
+    const report = reconcile(images, promptData, matching, promptAssignments);
+    const entryLabel = (e: ReconciledEntry) => `${e.key ? `[${e.key}] ` : ''}${e.prompt.slice(0, 80)}${e.prompt.length > 80 ? '…' : ''}`;
+    const assignedNames = Object.keys(promptAssignments).filter(name => images.some(img => img.name === name));
+    const allEntries = promptData.map((entry, index) => {
+        const { prompt, key } = splitPromptEntry(entry.outputAi || '', matching);
+        return { index, entry, prompt, key: key ? shotKeyId(key) : null };
+    });
 
-                    {current.oldUrl && (
-                        <button 
-                            onClick={() => setCompareMode(!compareMode)}
-                            className={`flex-1 max-w-[220px] h-12 border-2 font-bold rounded-xl transition-all active:scale-95 flex items-center justify-center gap-2 text-sm uppercase tracking-wide ${compareMode ? 'bg-white text-black border-white' : 'border-white/20 text-white hover:bg-white/10'}`}
-                        >
-                            <SplitSquareHorizontal size={20} /> Compare
-                        </button>
-                    )}
+    return (
+        <div className="p-8 h-full overflow-y-auto max-w-7xl mx-auto w-full">
+            <div className="mb-6">
+                <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                    <ListChecks className="text-primary" />
+                    Match Reconciliation
+                </h2>
+                <p className="text-muted text-sm mt-1">
+                    {report.matched} of {images.length} images matched · {promptData.length} prompt entries · {assignedNames.length} assigned by hand
+                </p>
+            </div>
 
-                    <button 
-                        onClick={() => {
-                            const updated = [...images];
-                            updated[qcIndex].status = 'rejected';
-                            setImages(updated);
-                            if (qcIndex < images.length - 1) setQcIndex(qcIndex + 1);
-                        }}
-                        className="flex-1 max-w-[220px] h-12 bg-surfaceHighlight hover:bg-danger text-white hover:text-white border border-border hover:border-danger font-bold rounded-xl transition-all hover:scale-105 active:scale-95 shadow-lg flex items-center justify-center gap-2 text-sm uppercase tracking-wide group"
-                    >
-                        <XCircle size={20} className="text-danger group-hover:text-white transition-colors" /> Reject
-                    </button>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-surface border border-border rounded-xl flex flex-col">
+                    <h3 className="p-4 border-b border-border text-xs font-bold uppercase tracking-wider text-white flex items-center justify-between">
+                        Images without prompts
+                        <span className={report.unmatchedImages.length ? 'text-danger' : 'text-success'}>{report.unmatchedImages.length}</span>
+                    </h3>
+                    <div className="divide-y divide-border max-h-[420px] overflow-y-auto">
+                        {report.unmatchedImages.length === 0 && <div className="p-4 text-xs text-muted italic">Every image has a prompt.</div>}
+                        {report.unmatchedImages.map(img => (
+                            <div key={img.id} className="p-3 flex items-center gap-3">
+                                <img src={img.url} alt="" className="w-12 h-8 object-cover rounded border border-border shrink-0" />
+                                <div className="w-40 shrink-0 text-xs font-mono text-white truncate" title={img.name}>{img.name}</div>
+                                <select
+                                    value=""
+                                    onChange={(e) => e.target.value && handleAssignPrompt(img.name, promptData[Number(e.target.value)])}
+                                    disabled={promptData.length === 0}
+                                    className="flex-1 min-w-0 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-xs text-gray-300 focus:border-primary outline-none disabled:opacity-40"
+                                >
+                                    <option value="">Assign a prompt…</option>
+                                    {report.orphanEntries.length > 0 && (
+                                        <optgroup label="Unused entries">
+                                            {report.orphanEntries.map(e => <option key={e.index} value={e.index}>{entryLabel(e)}</option>)}
+                                        </optgroup>
+                                    )}
+                                    <optgroup label="All entries">
+                                        {allEntries.map(e => <option key={e.index} value={e.index}>{entryLabel(e)}</option>)}
+                                    </optgroup>
+                                </select>
+                            </div>
+                        ))}
+                    </div>
                 </div>
-            </div>
 
-            {/* Right: Context */}
-            <div className="w-80 bg-surface border-l border-border flex flex-col flex-shrink-0 overflow-y-auto z-10 shadow-xl">
-                <div className="p-5 border-b border-border">
-                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-3 flex items-center gap-2">
-                        <FileText size={14} /> Prompt Details
+                <div className="bg-surface border border-border rounded-xl flex flex-col">
+                    <h3 className="p-4 border-b border-border text-xs font-bold uppercase tracking-wider text-white flex items-center justify-between">
+                        Prompts without images
+                        <span className={report.orphanEntries.length ? 'text-warning' : 'text-success'}>{report.orphanEntries.length}</span>
                     </h3>
-                    <div className="relative">
-                        <textarea 
-                            className="w-full h-40 bg-[#0c0c0e] border border-border rounded-lg p-3 text-xs font-mono text-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-none leading-relaxed"
-                            value={current.prompt}
-                            onChange={(e) => {
-                                const updated = [...images];
-                                updated[qcIndex].prompt = e.target.value;
-                                setImages(updated);
-                            }}
-                        />
-                        <div className="absolute bottom-2 right-2">
-                            <button 
-                                onClick={() => {
-                                    const updated = [...images];
-                                    updated[qcIndex].prompt = current.originalPrompt;
-                                    setImages(updated);
-                                }}
-                                className="p-1.5 bg-surface border border-border rounded hover:border-primary text-muted hover:text-primary transition-colors"
-                                title="Reset Prompt"
-                            >
-                                <RefreshCcw size={12} />
-                            </button>
-                        </div>
+                    <div className="divide-y divide-border max-h-[420px] overflow-y-auto">
+                        {report.orphanEntries.length === 0 && <div className="p-4 text-xs text-muted italic">Every prompt entry is in use.</div>}
+                        {report.orphanEntries.map(e => (
+                            <div key={e.index} className="p-3 flex items-center gap-3 text-xs">
+                                <span className={`w-14 shrink-0 font-mono ${e.key ? 'text-primary' : 'text-danger'}`}>{e.key || 'no key'}</span>
+                                <span className="flex-1 min-w-0 text-gray-300 truncate" title={e.prompt}>{e.prompt}</span>
+                                <select
+                                    value=""
+                                    onChange={(ev) => ev.target.value && handleAssignPrompt(ev.target.value, e.entry)}
+                                    disabled={images.length === 0}
+                                    className="w-36 shrink-0 bg-[#0c0c0e] border border-border rounded px-2 py-1.5 text-gray-300 focus:border-primary outline-none disabled:opacity-40"
+                                >
+                                    <option value="">Assign to…</option>
+                                    {report.unmatchedImages.map(img => <option key={img.id} value={img.name}>{img.name}</option>)}
+                                    {report.unmatchedImages.length > 0 && <option disabled>──────────</option>}
+                                    {images.filter(img => !report.unmatchedImages.includes(img)).map(img => <option key={img.id} value={img.name}>{img.name}</option>)}
+                                </select>
+                            </div>
+                        ))}
                     </div>
                 </div>
 
-                <div className="p-5 border-b border-border">
-                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-4 flex items-center gap-2">
-                        <Settings size={14} /> Character Outfits
+                <div className="bg-surface border border-border rounded-xl flex flex-col">
+                    <h3 className="p-4 border-b border-border text-xs font-bold uppercase tracking-wider text-white flex items-center justify-between">
+                        Duplicate chapter keys
+                        <span className={report.duplicates.length ? 'text-warning' : 'text-success'}>{report.duplicates.length}</span>
                     </h3>
-                    {chars.length === 0 ? (
-                        <div className="p-4 bg-surfaceHighlight/30 rounded-lg border border-border/50 text-center">
-                            <div className="text-xs text-muted italic">No specific characters detected in prompt text.</div>
-                        </div>
-                    ) : (
-                        <div className="space-y-4">
-                            {chars.map(char => (
-                                <div key={char.name} className="bg-surfaceHighlight/30 p-3 rounded-lg border border-border/50">
-                                    <div className="flex items-center justify-between mb-2">
-                                        <span className="text-sm font-bold text-white">{char.name}</span>
-                                        <span className="text-[10px] uppercase bg-primary/20 text-primary px-1.5 py-0.5 rounded border border-primary/20">{char.outfit}</span>
+                    <div className="divide-y divide-border max-h-[420px] overflow-y-auto">
+                        {report.duplicates.length === 0 && <div className="p-4 text-xs text-muted italic">No key is used twice.</div>}
+                        {report.duplicates.map(d => (
+                            <div key={d.key} className="p-3 text-xs space-y-1">
+                                <div className="font-mono text-primary">{d.key}</div>
+                                {d.entries.map((e, i) => (
+                                    <div key={e.index} className="flex gap-2 text-gray-300">
+                                        <span className={`shrink-0 text-[10px] uppercase font-bold ${i === 0 ? 'text-success' : 'text-muted'}`}>{i === 0 ? 'Used' : 'Ignored'}</span>
+                                        <span className="truncate" title={e.prompt}>#{e.index + 1} {e.prompt}</span>
                                     </div>
-                                    <select 
-                                        className="w-full bg-[#0c0c0e] border border-border rounded px-2 py-2 text-xs text-gray-300 focus:border-primary outline-none"
-                                        value={outfitOverride[char.name] || 'default'}
-                                        onChange={(e) => setOutfitOverride(p => ({...p, [char.name]: e.target.value}))}
-                                    >
-                                        <option value="default">Default Prompt</option>
-                                        <option value="patient">🏥 Patient Gown</option>
-                                        <option value="casual">👕 Casual Wear</option>
-                                        <option value="formal">👔 Formal Suit</option>
-                                        <option value="santai">🏠 Home Wear</option>
-                                    </select>
-                                </div>
-                            ))}
-                        </div>
-                    )}
+                                ))}
+                            </div>
+                        ))}
+                    </div>
                 </div>
 
-                <div className="p-5 flex-1">
-                    <h3 className="font-bold text-xs uppercase text-muted tracking-wider mb-4 flex items-center gap-2">
-                        <AlertCircle size={14} /> Scene Context
+                <div className="bg-surface border border-border rounded-xl flex flex-col">
+                    <h3 className="p-4 border-b border-border text-xs font-bold uppercase tracking-wider text-white flex items-center justify-between">
+                        Manual assignments
+                        <span className="text-muted">{assignedNames.length}</span>
                     </h3>
-                    <div className="space-y-3">
-                         <div className="bg-background border border-border rounded-lg p-3">
-                            <div className="text-[10px] text-muted uppercase font-bold mb-1">Detected Setting</div>
-                            <div className="text-xs font-mono text-primary bg-primary/10 inline-block px-1.5 py-0.5 rounded">{detectSettingFromPrompt(current.prompt)}</div>
-                         </div>
-                         <div className="bg-background border border-border rounded-lg p-3">
-                            <div className="text-[10px] text-muted uppercase font-bold mb-1">File Source</div>
-                            <div className="text-xs font-mono text-gray-400 break-all">{current.name}</div>
-                         </div>
+                    <div className="divide-y divide-border max-h-[420px] overflow-y-auto">
+                        {assignedNames.length === 0 && <div className="p-4 text-xs text-muted italic">Nothing assigned by hand.</div>}
+                        {assignedNames.map(name => (
+                            <div key={name} className="p-3 flex items-center gap-3 text-xs">
+                                <span className="w-40 shrink-0 font-mono text-white truncate" title={name}>{name}</span>
+                                <span className="flex-1 min-w-0 text-gray-300 truncate">{splitPromptEntry(promptAssignments[name], matching).prompt}</span>
+                                <button
+                                    onClick={() => handleAssignPrompt(name, null)}
+                                    className="p-1.5 rounded hover:bg-danger/20 text-muted hover:text-danger transition-colors"
+                                    title="Remove assignment"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+  };
+
+  // The derived queue data below is memoized: with hundreds of images, recomputing it
+  // on every keystroke in the prompt box makes typing lag.
+
+  // Detector results per image object, dropped whenever the detector config changes.
+  // Editing a prompt replaces only that image object, so only it is scanned again.
+  const factsCache = useMemo(() => new WeakMap<QCImage, QueueFacts>(), [cast, outfits, outfitOverride, locations, matching]);
+
+  // What the detectors see in each image; shared by the queue filter and the continuity pass
+  const queueFacts = useMemo(() => new Map<number, QueueFacts>(images.map(img => {
+    let facts = factsCache.get(img);
+    if (!facts) {
+        facts = { characters: resolveCharacters(img.prompt, img.outfitOverride), setting: settingOf(img), chapterId: chapterIdOf(img, matching) };
+        factsCache.set(img, facts);
+    }
+    return [img.id, facts];
+  })), [images, factsCache]);
+
+  // Everyone who appears in the bulk selection, for the outfit action
+  const selectionCharacters = Array.from(new Set(
+    images.filter(img => selectedIds.includes(img.id)).flatMap(img => queueFacts.get(img.id)!.characters.map(c => c.name))
+  )).sort(naturalCompare);
+
+  // Dashboard numbers always cover the whole session
+  const chapterGroups = useMemo(() => groupByChapter(images, matching), [images, matching]);
+
+  // The QC queue as filtered and sorted; qcIndex still points into images
+  const queueGroups = useMemo(() => {
+    const inFilter = (img: QCImage) => matchesFilter(img, queueFacts.get(img.id)!, queueFilter);
+    return queueSort === 'chapter'
+        ? groupByChapter(images, matching, inFilter)
+        : flatGroup(images, SORT_COMPARATORS[queueSort], inFilter);
+  }, [images, matching, queueFacts, queueFilter, queueSort]);
+  const order = useMemo(() => queueOrder(queueGroups), [queueGroups]);
+  const queuePos = order.indexOf(qcIndex);
+
+  // From an image outside the filter, stepping lands on the first match
+  const stepQueue = (delta: number) => {
+    const next = queuePos < 0 ? order[0] : order[queuePos + delta];
+    if (next === undefined) return;
+    setQcIndex(next);
+    setCompareMode(false);
+  };
+
+  const continuityWarnings = useMemo(() => checkContinuity(
+    images.flatMap(img => {
+        const key = parseFileKey(img.name, matching);
+        return key ? [{ imageId: img.id, name: img.name, chapter: key.chapter, scene: key.scene, characters: queueFacts.get(img.id)!.characters, setting: queueFacts.get(img.id)!.setting }] : [];
+    }),
+    locations
+  ), [images, queueFacts, matching, locations]);
+  const activeWarnings = continuityWarnings.filter(w => !continuityAcks.includes(w.id));
+
+  // Only worth flagging once both sides are loaded
+  const reconcileReport = useMemo(
+    () => promptData.length > 0 && images.length > 0 ? reconcile(images, promptData, matching, promptAssignments) : null,
+    [images, promptData, matching, promptAssignments]
+  );
+  const reconcileIssues = reconcileReport
+    ? reconcileReport.unmatchedImages.length + reconcileReport.orphanEntries.length + reconcileReport.duplicates.length
+    : 0;
+
+  const renderEdits = () => {
+    const edited = images.filter(isPromptEdited);
+    return (
+        <div className="p-8 h-full flex flex-col max-w-6xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <Diff className="text-primary" />
+                        Prompt Edits
+                    </h2>
+                    <p className="text-muted text-sm mt-1">{edited.length} of {images.length} prompts changed during review</p>
+                </div>
+                <button
+                    onClick={handleExportEditedPrompts}
+                    disabled={edited.length === 0}
+                    className="h-9 px-4 rounded-lg bg-primary hover:bg-primaryHover text-white text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors disabled:opacity-40"
+                >
+                    <Download size={14} /> Export Prompt JSON
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto bg-surface border border-border rounded-xl divide-y divide-border">
+                {edited.length === 0 && <div className="p-8 text-center text-sm text-muted">No prompt has been edited yet.</div>}
+                {edited.map(img => (
+                    <div key={img.id} className="p-4 flex gap-4">
+                        <img src={img.url} alt="" className="w-24 h-14 object-cover rounded border border-border shrink-0" />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between mb-2">
+                                <button
+                                    onClick={() => {
+                                        setQcIndex(images.indexOf(img));
+                                        setQcTab('cg');
+                                        setCurrentView('qc');
+                                    }}
+                                    className="text-xs font-mono font-bold text-white hover:text-primary transition-colors"
+                                >
+                                    {img.name}
+                                </button>
+                                <button
+                                    onClick={() => updateImagePrompt(img, img.originalPrompt, 'Reset prompt', false)}
+                                    className="text-[10px] font-bold uppercase tracking-wider text-muted hover:text-white flex items-center gap-1 transition-colors"
+                                >
+                                    <RefreshCcw size={10} /> Reset
+                                </button>
+                            </div>
+                            <PromptDiff before={img.originalPrompt} after={img.prompt} />
+                        </div>
                     </div>
+                ))}
+            </div>
+        </div>
+    );
+  };
+
+  const renderContinuity = () => {
+    const visible = continuityWarnings.filter(w => showAckedContinuity || !continuityAcks.includes(w.id));
+    const chapters = Array.from(new Set(visible.map(w => w.chapter)));
+    return (
+        <div className="p-8 h-full flex flex-col max-w-6xl mx-auto w-full">
+            <div className="mb-6 flex items-end justify-between gap-6">
+                <div>
+                    <h2 className="text-2xl font-bold flex items-center gap-3 text-white">
+                        <AlertTriangle className="text-primary" />
+                        Scene Continuity
+                    </h2>
+                    <p className="text-muted text-sm mt-1">
+                        {activeWarnings.length} open · {continuityWarnings.length - activeWarnings.length} marked intentional · consecutive shots within each chapter
+                    </p>
                 </div>
+                <label className="flex items-center gap-2 text-xs text-muted">
+                    <input type="checkbox" checked={showAckedContinuity} onChange={(e) => setShowAckedContinuity(e.target.checked)} />
+                    Show intentional changes
+                </label>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+                {visible.length === 0 && (
+                    <div className="bg-surface border border-border rounded-xl p-8 text-center text-sm text-muted">No continuity issues found.</div>
+                )}
+                {chapters.map(chapter => (
+                    <div key={chapter} className="bg-surface border border-border rounded-xl">
+                        <h3 className="px-4 py-3 border-b border-border text-xs font-bold uppercase tracking-wider text-white">Chapter {chapter}</h3>
+                        <div className="divide-y divide-border">
+                            {visible.filter(w => w.chapter === chapter).map(w => {
+                                const acked = continuityAcks.includes(w.id);
+                                const shot = images.find(i => i.id === w.imageId);
+                                const previous = images.find(i => i.id === w.previousImageId);
+                                return (
+                                    <div key={w.id} className={`p-4 flex items-center gap-4 ${acked ? 'opacity-50' : ''}`}>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <img src={previous?.url} alt="" className="w-16 h-10 object-cover rounded border border-border" />
+                                            <ChevronRight size={14} className="text-muted" />
+                                            <img src={shot?.url} alt="" className="w-16 h-10 object-cover rounded border border-border" />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-sm text-white">{describeContinuity(w)}</div>
+                                            <div className="text-[10px] font-mono text-muted mt-0.5">{previous?.name} → {shot?.name}</div>
+                                        </div>
+                                        <button onClick={() => jumpToImage(w.imageId)} className="text-xs text-muted hover:text-white transition-colors">Open</button>
+                                        <button
+                                            onClick={() => toggleContinuityAck(w.id)}
+                                            className={`text-[10px] font-bold uppercase tracking-wider px-3 py-1.5 rounded border transition-colors ${acked ? 'border-border text-muted hover:text-white' : 'border-warning/40 text-warning hover:bg-warning/10'}`}
+                                        >
+                                            {acked ? 'Reopen' : 'Mark intentional'}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
             </div>
         </div>
     );
@@ -804,18 +4131,76 @@ export default function App() {
                     active={currentView === 'extraction'} 
                     onClick={() => setCurrentView('extraction')} 
                 />
+                <SidebarItem
+                    icon={ListChecks}
+                    label="Reconciliation"
+                    active={currentView === 'reconcile'}
+                    onClick={() => setCurrentView('reconcile')}
+                    badge={reconcileIssues}
+                />
                 <SidebarItem 
                     icon={CheckCircle2} 
                     label="QC Studio" 
                     active={currentView === 'qc'} 
                     onClick={() => setCurrentView('qc')}
-                    badge={images.length}
+                    badge={images.length + backgrounds.length}
+                />
+                <SidebarItem
+                    icon={Music}
+                    label="Audio Cues"
+                    active={currentView === 'audio'}
+                    onClick={() => setCurrentView('audio')}
+                    badge={audioCues.length}
+                />
+                <SidebarItem
+                    icon={AlertTriangle}
+                    label="Continuity"
+                    active={currentView === 'continuity'}
+                    onClick={() => setCurrentView('continuity')}
+                    badge={activeWarnings.length}
+                />
+                <SidebarItem
+                    icon={Diff}
+                    label="Prompt Edits"
+                    active={currentView === 'edits'}
+                    onClick={() => setCurrentView('edits')}
+                    badge={images.filter(isPromptEdited).length}
                 />
                 <SidebarItem 
                     icon={RefreshCcw} 
                     label="Retry Queue" 
                     active={currentView === 'retry'} 
                     onClick={() => setCurrentView('retry')} 
+                    badge={retryQueue.filter(r => r.state !== 'succeeded').length}
+                />
+
+                <div className="px-6 mt-8 mb-2 text-[10px] font-bold text-muted uppercase tracking-wider opacity-70">Library</div>
+                <SidebarItem
+                    icon={Users}
+                    label="Cast Registry"
+                    active={currentView === 'cast'}
+                    onClick={() => setCurrentView('cast')}
+                    badge={cast.length}
+                />
+                <SidebarItem
+                    icon={Shirt}
+                    label="Outfit Catalog"
+                    active={currentView === 'wardrobe'}
+                    onClick={() => setCurrentView('wardrobe')}
+                    badge={outfits.length}
+                />
+                <SidebarItem
+                    icon={MapPin}
+                    label="Location Library"
+                    active={currentView === 'locations'}
+                    onClick={() => setCurrentView('locations')}
+                    badge={locations.length}
+                />
+                <SidebarItem
+                    icon={Regex}
+                    label="Filename Matching"
+                    active={currentView === 'matching'}
+                    onClick={() => setCurrentView('matching')}
                 />
             </div>
 
@@ -823,7 +4208,11 @@ export default function App() {
                 <div className="bg-background rounded-lg p-3 border border-border shadow-inner">
                     <label className="text-[10px] font-bold text-muted uppercase block mb-1.5 flex items-center justify-between">
                         Backend Connection
-                        <div className="w-1.5 h-1.5 rounded-full bg-success animate-pulse"></div>
+                        <span className={`flex items-center gap-1.5 normal-case font-medium ${backendMeta.text}`} title={backendHealth.message}>
+                            {backendMeta.label}
+                            {backendHealth.latencyMs !== undefined && backendHealth.state !== 'offline' && <span className="font-mono text-muted">{backendHealth.latencyMs}ms</span>}
+                            <div className={`w-1.5 h-1.5 rounded-full ${backendMeta.dot}`}></div>
+                        </span>
                     </label>
                     <input 
                         type="text" 
@@ -839,17 +4228,53 @@ export default function App() {
         <div className="flex-1 flex flex-col min-w-0 relative">
              {currentView === 'dashboard' && renderDashboard()}
              {currentView === 'extraction' && renderExtraction()}
-             {currentView === 'qc' && renderQC()}
-             {currentView === 'retry' && (
-                 <div className="flex items-center justify-center h-full text-muted flex-col animate-in fade-in zoom-in duration-300">
-                     <div className="w-24 h-24 bg-surfaceHighlight rounded-full flex items-center justify-center mb-6">
-                        <RefreshCcw size={40} className="text-muted opacity-50"/>
-                     </div>
-                     <div className="text-2xl font-bold text-white">Retry Queue Empty</div>
-                     <p className="text-sm mt-2 max-w-xs text-center text-gray-400">Failed generations from the automated pipeline will appear here automatically for manual review.</p>
-                 </div>
-             )}
+             {currentView === 'qc' && renderQCStudio()}
+             {currentView === 'audio' && renderAudio()}
+             {currentView === 'retry' && renderRetry()}
+             {currentView === 'cast' && renderCast()}
+             {currentView === 'wardrobe' && renderWardrobe()}
+             {currentView === 'locations' && renderLocations()}
+             {currentView === 'matching' && renderMatching()}
+             {currentView === 'reconcile' && renderReconcile()}
+             {currentView === 'edits' && renderEdits()}
+             {currentView === 'continuity' && renderContinuity()}
         </div>
+
+        {importPreview && (
+            <ImportPreviewDialog
+                preview={importPreview}
+                currentCount={promptData.length}
+                onApply={handleApplyImport}
+                onClose={() => setImportPreview(null)}
+            />
+        )}
+
+        {rejectTarget && (
+            <RejectDialog
+                title={rejectTarget === 'current' ? images[qcIndex]?.name || '' : `${selectedIds.length} selected images`}
+                reasons={rejectionReasons}
+                initial={rejectTarget === 'current' && images[qcIndex]?.status === 'rejected' ? images[qcIndex].rejection : undefined}
+                onReasonsChange={setRejectionReasons}
+                onConfirm={handleConfirmReject}
+                onClose={() => setRejectTarget(null)}
+            />
+        )}
+
+        {bulkAction && (
+            <BulkActionDialog
+                initial={bulkAction}
+                selectedCount={selectedIds.length}
+                characters={selectionCharacters}
+                wardrobeOf={name => wardrobeFor(outfits, cast.find(m => m.name === name)?.id)}
+                planFor={planBulk}
+                onConfirm={handleApplyBulk}
+                onClose={() => setBulkAction(null)}
+            />
+        )}
+
+        {showCheatSheet && (
+            <HotkeyCheatSheet hotkeys={hotkeys} onChange={setHotkeys} onClose={() => setShowCheatSheet(false)} />
+        )}
     </div>
   );
 }
\ No newline at end of file
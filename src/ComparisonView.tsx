@@ -0,0 +1,410 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  SplitSquareHorizontal,
+  Columns,
+  Layers,
+  Diff,
+  Search,
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  LucideIcon
+} from 'lucide-react';
+
+// --- Comparison View ---
+// Wipe, side-by-side, onion-skin and pixel-difference modes sharing one
+// zoom/pan transform. Uses pointer events so touch and pen behave like a mouse.
+// Dragging pans; in wipe mode it moves the divider and Shift-drag pans.
+
+type CompareMode = 'wipe' | 'side' | 'onion' | 'diff';
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const LOUPE_SIZE = 160;
+const LOUPE_ZOOM = 3;
+const DIFF_MAX_EDGE = 2048;
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const MODES: { id: CompareMode, label: string, icon: LucideIcon }[] = [
+  { id: 'wipe', label: 'Wipe', icon: SplitSquareHorizontal },
+  { id: 'side', label: 'Side by side', icon: Columns },
+  { id: 'onion', label: 'Onion skin', icon: Layers },
+  { id: 'diff', label: 'Difference', icon: Diff }
+];
+
+const clampScale = (scale: number) => Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+
+// Pixel reads need CORS; plain size lookups don't
+const loadImage = (url: string, forPixels = false): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    if (forPixels) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load ${url}`));
+    img.src = url;
+  });
+
+const THRESHOLD_DEBOUNCE_MS = 120;
+
+// Both images decoded at diff size; kept so threshold changes skip the decode
+interface DiffPixels {
+  w: number;
+  h: number;
+  before: Uint8ClampedArray;
+  after: Uint8ClampedArray;
+}
+
+const decodePair = async (oldUrl: string, newUrl: string): Promise<DiffPixels> => {
+  const [a, b] = await Promise.all([loadImage(oldUrl, true), loadImage(newUrl, true)]);
+  const ratio = Math.min(1, DIFF_MAX_EDGE / Math.max(b.naturalWidth, b.naturalHeight));
+  const w = Math.max(1, Math.round(b.naturalWidth * ratio));
+  const h = Math.max(1, Math.round(b.naturalHeight * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(a, 0, 0, w, h);
+  const before = ctx.getImageData(0, 0, w, h).data;
+  ctx.drawImage(b, 0, 0, w, h);
+  return { w, h, before, after: ctx.getImageData(0, 0, w, h).data };
+};
+
+// Paints changed pixels magenta over a dimmed greyscale copy of the new image.
+const renderDiff = ({ w, h, before, after }: DiffPixels, threshold: number): { url: string, changed: number } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const image = new ImageData(new Uint8ClampedArray(after), w, h);
+  const out = image.data;
+
+  let changed = 0;
+  for (let i = 0; i < out.length; i += 4) {
+    const delta = (Math.abs(out[i] - before[i]) + Math.abs(out[i + 1] - before[i + 1]) + Math.abs(out[i + 2] - before[i + 2])) / 3;
+    if (delta > threshold) {
+      changed++;
+      out[i] = 255;
+      out[i + 1] = 0;
+      out[i + 2] = 200;
+    } else {
+      const grey = (out[i] * 0.3 + out[i + 1] * 0.59 + out[i + 2] * 0.11) * 0.35;
+      out[i] = out[i + 1] = out[i + 2] = grey;
+    }
+    out[i + 3] = 255;
+  }
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return { url: canvas.toDataURL('image/png'), changed: changed / (w * h) };
+};
+
+const ComparisonView = ({ oldUrl, newUrl }: { oldUrl: string, newUrl: string }) => {
+  const [mode, setMode] = useState<CompareMode>('wipe');
+  const [sliderPos, setSliderPos] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const [threshold, setThreshold] = useState(24);
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [loupeOn, setLoupeOn] = useState(false);
+  const [loupe, setLoupe] = useState<{ x: number, y: number } | null>(null);
+  const [natural, setNatural] = useState<{ w: number, h: number } | null>(null);
+  const [pixels, setPixels] = useState<DiffPixels | null>(null);
+  const [diff, setDiff] = useState<{ url: string, changed: number } | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Active pointers for drag / pinch, keyed by pointerId
+  const pointers = useRef(new Map<number, { x: number, y: number }>());
+  const gesture = useRef<{ kind: 'slider' | 'pan' | 'pinch', startDist?: number, startScale?: number, lastX?: number, lastY?: number } | null>(null);
+
+  useEffect(() => {
+    setTransform(IDENTITY);
+    setPixels(null);
+    setDiff(null);
+  }, [oldUrl, newUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(newUrl).then(img => !cancelled && setNatural({ w: img.naturalWidth, h: img.naturalHeight })).catch(() => {});
+    return () => { cancelled = true; };
+  }, [newUrl]);
+
+  useEffect(() => {
+    if (mode !== 'diff' || pixels) return;
+    let cancelled = false;
+    setDiffError(null);
+    decodePair(oldUrl, newUrl)
+      .then(result => !cancelled && setPixels(result))
+      .catch(err => !cancelled && setDiffError(err.message));
+    return () => { cancelled = true; };
+  }, [mode, oldUrl, newUrl, pixels]);
+
+  // The per-pixel pass is still a few megapixels, so wait for the slider to settle;
+  // freshly decoded pixels render straight away
+  const renderedPixels = useRef<DiffPixels | null>(null);
+  useEffect(() => {
+    if (!pixels) return;
+    const delay = renderedPixels.current === pixels ? THRESHOLD_DEBOUNCE_MS : 0;
+    const timer = setTimeout(() => {
+      renderedPixels.current = pixels;
+      setDiff(renderDiff(pixels, threshold));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [pixels, threshold]);
+
+  // Wheel zoom needs a non-passive listener to be able to preventDefault
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setTransform(t => {
+        const scale = clampScale(t.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15));
+        return scale === 1 ? IDENTITY : { ...t, scale };
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const localPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top, rect };
+  };
+
+  const moveSlider = (e: React.PointerEvent) => {
+    const { x, rect } = localPoint(e);
+    setSliderPos((Math.max(0, Math.min(x, rect.width)) / rect.width) * 100);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as HTMLElement).closest('[data-compare-controls]')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.current.size === 2) {
+      const [p1, p2] = Array.from(pointers.current.values());
+      gesture.current = { kind: 'pinch', startDist: Math.hypot(p1.x - p2.x, p1.y - p2.y), startScale: transform.scale };
+    } else if (mode === 'wipe' && !e.shiftKey) {
+      // Shift-drag pans instead, so a zoomed wipe can still be moved around
+      gesture.current = { kind: 'slider' };
+      moveSlider(e);
+    } else {
+      gesture.current = { kind: 'pan', lastX: e.clientX, lastY: e.clientY };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (loupeOn) {
+      const { x, y } = localPoint(e);
+      setLoupe({ x, y });
+    }
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const g = gesture.current;
+    if (!g) return;
+
+    if (g.kind === 'pinch' && pointers.current.size >= 2) {
+      const [p1, p2] = Array.from(pointers.current.values());
+      const dist = Math.hypot(p1.x - p2.x, p1.y - p2.y);
+      const scale = clampScale((g.startScale || 1) * dist / (g.startDist || dist));
+      setTransform(t => (scale === 1 ? IDENTITY : { ...t, scale }));
+    } else if (g.kind === 'slider') {
+      moveSlider(e);
+    } else if (g.kind === 'pan' && transform.scale > 1) {
+      const dx = e.clientX - (g.lastX ?? e.clientX);
+      const dy = e.clientY - (g.lastY ?? e.clientY);
+      g.lastX = e.clientX;
+      g.lastY = e.clientY;
+      setTransform(t => ({ ...t, x: t.x + dx, y: t.y + dy }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size === 0) gesture.current = null;
+    else if (gesture.current?.kind === 'pinch') {
+      const [rest] = Array.from(pointers.current.values());
+      gesture.current = mode === 'wipe' ? { kind: 'slider' } : { kind: 'pan', lastX: rest.x, lastY: rest.y };
+    }
+    // Touch has no hover, so the loupe goes away with the finger
+    if (e.pointerType === 'touch') setLoupe(null);
+  };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+    transformOrigin: 'center'
+  };
+
+  // Which image sits under the loupe and where, in fractions of that image
+  const loupeSource = (): { url: string, u: number, v: number, dw: number, dh: number } | null => {
+    if (!loupe || !natural || !containerRef.current) return null;
+    const W = containerRef.current.clientWidth;
+    const H = containerRef.current.clientHeight;
+    const paneW = mode === 'side' ? W / 2 : W;
+    const inRightPane = mode === 'side' && loupe.x > paneW;
+    const px = inRightPane ? loupe.x - paneW : loupe.x;
+
+    const fit = Math.min(paneW / natural.w, H / natural.h);
+    const dw = natural.w * fit;
+    const dh = natural.h * fit;
+    const qx = paneW / 2 + (px - paneW / 2 - transform.x) / transform.scale;
+    const qy = H / 2 + (loupe.y - H / 2 - transform.y) / transform.scale;
+    const u = (qx - (paneW - dw) / 2) / dw;
+    const v = (qy - (H - dh) / 2) / dh;
+    if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+
+    let url = newUrl;
+    if (mode === 'wipe') url = loupe.x / W * 100 <= sliderPos ? newUrl : oldUrl;
+    if (mode === 'side') url = inRightPane ? newUrl : oldUrl;
+    if (mode === 'diff' && diff) url = diff.url;
+    return { url, u, v, dw, dh };
+  };
+
+  const renderLayer = (url: string, alt: string, style?: React.CSSProperties) => (
+    <div className="absolute inset-0 overflow-hidden" style={style}>
+      <img src={url} draggable={false} className="w-full h-full object-contain pointer-events-none" style={imageStyle} alt={alt} />
+    </div>
+  );
+
+  const source = loupeOn ? loupeSource() : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full select-none overflow-hidden rounded-lg shadow-2xl bg-black border border-border ${
+        loupeOn ? 'cursor-crosshair' : mode === 'wipe' ? 'cursor-ew-resize' : transform.scale > 1 ? 'cursor-grab' : 'cursor-default'
+      }`}
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={(e) => { if (e.pointerType !== 'touch') setLoupe(null); }}
+      onDoubleClick={() => setTransform(IDENTITY)}
+    >
+      {mode === 'wipe' && (
+        <>
+          {renderLayer(oldUrl, 'Original')}
+          {renderLayer(newUrl, 'New', { clipPath: `inset(0 ${100 - sliderPos}% 0 0)` })}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-primary z-10 shadow-[0_0_15px_rgba(99,102,241,0.5)]"
+            style={{ left: `${sliderPos}%` }}
+          >
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 bg-primary rounded-full flex items-center justify-center text-white font-bold text-xs shadow-lg border-2 border-white">
+              <SplitSquareHorizontal size={14} />
+            </div>
+          </div>
+        </>
+      )}
+
+      {mode === 'side' && (
+        <>
+          {renderLayer(oldUrl, 'Original', { right: '50%' })}
+          {renderLayer(newUrl, 'New', { left: '50%' })}
+          <div className="absolute top-0 bottom-0 left-1/2 w-px bg-border z-10" />
+          <div className="absolute bottom-3 left-3 text-[10px] font-bold uppercase bg-black/70 text-white px-2 py-0.5 rounded z-10">A · Before</div>
+          <div className="absolute bottom-3 left-[calc(50%+12px)] text-[10px] font-bold uppercase bg-black/70 text-white px-2 py-0.5 rounded z-10">B · After</div>
+        </>
+      )}
+
+      {mode === 'onion' && (
+        <>
+          {renderLayer(oldUrl, 'Original')}
+          {renderLayer(newUrl, 'New', { opacity: opacity / 100 })}
+        </>
+      )}
+
+      {mode === 'diff' && (
+        diff ? renderLayer(diff.url, 'Difference') : (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-muted">
+            {diffError || 'Computing difference...'}
+          </div>
+        )
+      )}
+
+      {/* Controls */}
+      <div
+        data-compare-controls
+        className="absolute top-3 left-3 z-20 flex items-center gap-1 bg-black/70 backdrop-blur-md border border-white/10 rounded-lg p-1 cursor-default"
+      >
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setMode(m.id)}
+            title={m.label}
+            className={`p-1.5 rounded transition-colors ${mode === m.id ? 'bg-primary text-white' : 'text-muted hover:text-white'}`}
+          >
+            <m.icon size={14} />
+          </button>
+        ))}
+        <div className="w-px h-5 bg-white/10 mx-1" />
+        <button
+          onClick={() => setLoupeOn(v => !v)}
+          title="Zoom loupe"
+          className={`p-1.5 rounded transition-colors ${loupeOn ? 'bg-primary text-white' : 'text-muted hover:text-white'}`}
+        >
+          <Search size={14} />
+        </button>
+        <button onClick={() => setTransform(t => ({ ...t, scale: clampScale(t.scale * 1.25) }))} title="Zoom in" className="p-1.5 rounded text-muted hover:text-white">
+          <ZoomIn size={14} />
+        </button>
+        <button
+          onClick={() => setTransform(t => { const scale = clampScale(t.scale / 1.25); return scale === 1 ? IDENTITY : { ...t, scale }; })}
+          title="Zoom out"
+          className="p-1.5 rounded text-muted hover:text-white"
+        >
+          <ZoomOut size={14} />
+        </button>
+        <button onClick={() => setTransform(IDENTITY)} title="Reset view" className="p-1.5 rounded text-muted hover:text-white">
+          <Maximize size={14} />
+        </button>
+        <span
+          className="text-[10px] font-mono text-muted px-1 w-10 text-right"
+          title={mode === 'wipe' ? 'Shift-drag to pan' : undefined}
+        >
+          {Math.round(transform.scale * 100)}%
+        </span>
+
+        {mode === 'onion' && (
+          <label className="flex items-center gap-2 pl-2 text-[10px] text-muted uppercase font-bold">
+            Opacity
+            <input type="range" min={0} max={100} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="w-24 accent-primary" />
+          </label>
+        )}
+        {mode === 'diff' && (
+          <label className="flex items-center gap-2 pl-2 text-[10px] text-muted uppercase font-bold">
+            Threshold
+            <input type="range" min={1} max={128} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className="w-24 accent-primary" />
+            {diff && <span className="font-mono normal-case text-white">{(diff.changed * 100).toFixed(1)}% changed</span>}
+          </label>
+        )}
+      </div>
+
+      {/* Loupe */}
+      {loupeOn && loupe && (
+        <div
+          className="absolute z-30 rounded-full border-2 border-white shadow-2xl pointer-events-none bg-black"
+          style={{
+            width: LOUPE_SIZE,
+            height: LOUPE_SIZE,
+            left: loupe.x - LOUPE_SIZE / 2,
+            top: loupe.y - LOUPE_SIZE / 2,
+            backgroundImage: source ? `url("${source.url}")` : undefined,
+            backgroundRepeat: 'no-repeat',
+            backgroundSize: source ? `${source.dw * transform.scale * LOUPE_ZOOM}px ${source.dh * transform.scale * LOUPE_ZOOM}px` : undefined,
+            backgroundPosition: source
+              ? `${LOUPE_SIZE / 2 - source.u * source.dw * transform.scale * LOUPE_ZOOM}px ${LOUPE_SIZE / 2 - source.v * source.dh * transform.scale * LOUPE_ZOOM}px`
+              : undefined
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { joinBackendUrl, asRecord, asString } from './regenerationClient';
+
+// --- Backend Health Probe ---
+// Polls `${backendUrl}/api/health`, which is expected to answer with
+// { status: 'ok' | 'degraded', version, models: [], workflows: [] }.
+
+export type BackendState = 'checking' | 'connected' | 'degraded' | 'offline';
+
+export interface BackendHealth {
+    state: BackendState;
+    latencyMs?: number;
+    version?: string;
+    models: string[];
+    workflows: string[];
+    message?: string;
+    checkedAt?: number;
+}
+
+const PROBE_TIMEOUT_MS = 5000;
+const SLOW_LATENCY_MS = 2000;
+const POLL_INTERVAL_MS = 15000;
+
+const INITIAL_HEALTH: BackendHealth = { state: 'checking', models: [], workflows: [] };
+
+const toNameList = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.map(v => (typeof v === 'string' ? v : asString(asRecord(v).name) ?? asString(asRecord(v).id))).filter((v): v is string => typeof v === 'string')
+        : [];
+
+export const probeBackend = async (backendUrl: string): Promise<BackendHealth> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const started = performance.now();
+
+    try {
+        const res = await fetch(joinBackendUrl(backendUrl, '/api/health'), { signal: controller.signal, cache: 'no-store' });
+        const latencyMs = Math.round(performance.now() - started);
+        let body: Record<string, unknown> = {};
+        try {
+            body = asRecord(await res.json());
+        } catch {
+            // Older servers answer with plain text
+        }
+        const status = asString(body.status);
+
+        const health: BackendHealth = {
+            state: 'connected',
+            latencyMs,
+            version: asString(body.version),
+            models: toNameList(body.models),
+            workflows: toNameList(body.workflows),
+            checkedAt: Date.now()
+        };
+
+        if (!res.ok) return { ...health, state: 'degraded', message: asString(asRecord(body.error).message) || `Health check returned ${res.status}` };
+        if (status && status !== 'ok') return { ...health, state: 'degraded', message: asString(body.message) || `Server reports "${status}"` };
+        if (latencyMs > SLOW_LATENCY_MS) return { ...health, state: 'degraded', message: `Slow response (${latencyMs} ms)` };
+        return health;
+    } catch {
+        return {
+            state: 'offline',
+            models: [],
+            workflows: [],
+            message: controller.signal.aborted ? `No response within ${PROBE_TIMEOUT_MS / 1000}s` : `Cannot reach ${backendUrl}`,
+            checkedAt: Date.now()
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+export const useBackendHealth = (backendUrl: string): [BackendHealth, () => void] => {
+    const [health, setHealth] = useState<BackendHealth>(INITIAL_HEALTH);
+    const [nonce, setNonce] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const run = async () => {
+            const result = await probeBackend(backendUrl);
+            if (cancelled) return;
+            setHealth(result);
+            timer = setTimeout(run, POLL_INTERVAL_MS);
+        };
+
+        setHealth(INITIAL_HEALTH);
+        // Small delay so typing in the URL field doesn't fire a probe per keystroke
+        timer = setTimeout(run, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [backendUrl, nonce]);
+
+    return [health, () => setNonce(n => n + 1)];
+};
@@ -0,0 +1,60 @@
+// --- Batch Helpers ---
+// Small concurrency/backoff primitives for the Retry Queue.
+
+export interface RetryPolicy {
+    retries: number; // Extra attempts after the first one
+    backoffMs: number; // Base delay, doubled after every failed attempt
+}
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+export const withRetry = async <T>(
+    task: (attempt: number) => Promise<T>,
+    policy: RetryPolicy,
+    options: { signal?: AbortSignal, shouldRetry?: (err: unknown) => boolean, onAttempt?: (attempt: number) => void } = {}
+): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        options.onAttempt?.(attempt);
+        try {
+            return await task(attempt);
+        } catch (err) {
+            const retryable = options.shouldRetry ? options.shouldRetry(err) : true;
+            if (!retryable || attempt > policy.retries || options.signal?.aborted) throw err;
+            await sleep(policy.backoffMs * 2 ** (attempt - 1), options.signal);
+        }
+    }
+};
+
+// Runs `worker` over `items` with at most `limit` in flight; never rejects,
+// failures are the worker's business.
+export const runWithConcurrency = async <T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> => {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const item = items[next++];
+            try {
+                await worker(item);
+            } catch {
+                // Worker reports its own errors
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+};
@@ -0,0 +1,103 @@
+import { Character, ImagePatch, QCImage, Rejection, RetryItem } from './types';
+import { escapeRegExp } from './castRegistry';
+
+// --- Bulk Actions ---
+// Every bulk action is planned first so the reviewer sees exactly which
+// images change before anything is applied; the plan doubles as the undo entry.
+
+export type BulkAction =
+    | { kind: 'status', status: QCImage['status'], rejection?: Rejection }
+    | { kind: 'retry' }
+    | { kind: 'outfit', character: string, outfit: string }
+    | { kind: 'replace', find: string, replace: string, caseSensitive: boolean, wholeWord: boolean };
+
+export interface BulkChange {
+    img: QCImage;
+    before: ImagePatch;
+    after: ImagePatch;
+    detail: string; // One line for the confirmation summary
+}
+
+export interface BulkPlan {
+    action: BulkAction;
+    label: string;
+    changes: BulkChange[];
+    skipped: { img: QCImage, reason: string }[];
+}
+
+const STATUS_VERBS: Record<QCImage['status'], string> = { approved: 'Approve', rejected: 'Reject', pending: 'Reset' };
+
+export const bulkLabel = (action: BulkAction): string => {
+    switch (action.kind) {
+        case 'status': return STATUS_VERBS[action.status];
+        case 'retry': return 'Send to retry';
+        case 'outfit': return `${action.character} → ${action.outfit}`;
+        case 'replace': return `Replace "${action.find}"`;
+    }
+};
+
+// Same word-boundary lookarounds as the cast matcher, so "Raka" leaves "Rakai" alone
+export const buildReplaceMatcher = (action: Extract<BulkAction, { kind: 'replace' }>): RegExp | null => {
+    if (!action.find) return null;
+    const body = escapeRegExp(action.find);
+    return new RegExp(action.wholeWord ? `(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])` : body, action.caseSensitive ? 'gu' : 'giu');
+};
+
+export const planBulkAction = (
+    selected: QCImage[],
+    action: BulkAction,
+    context: { charactersOf: (img: QCImage) => Character[], retryQueue: RetryItem[] }
+): BulkPlan => {
+    const plan: BulkPlan = { action, label: bulkLabel(action), changes: [], skipped: [] };
+    const matcher = action.kind === 'replace' ? buildReplaceMatcher(action) : null;
+
+    selected.forEach(img => {
+        switch (action.kind) {
+            case 'status':
+                if (action.rejection) {
+                    // Re-rejecting an already rejected image replaces its reasons
+                    const detail = img.status === 'rejected' ? 'reasons replaced' : `${img.status} → rejected`;
+                    plan.changes.push({ img, before: { status: img.status, rejection: img.rejection }, after: { status: 'rejected', rejection: action.rejection }, detail });
+                } else if (img.status === action.status) {
+                    plan.skipped.push({ img, reason: `already ${img.status}` });
+                } else {
+                    plan.changes.push({ img, before: { status: img.status }, after: { status: action.status }, detail: `${img.status} → ${action.status}` });
+                }
+                return;
+            case 'retry': {
+                const queued = context.retryQueue.find(r => r.imageId === img.id);
+                if (queued && (queued.state === 'queued' || queued.state === 'running')) plan.skipped.push({ img, reason: `already ${queued.state}` });
+                else plan.changes.push({ img, before: {}, after: {}, detail: queued ? `re-queued (was ${queued.state})` : 'queued' });
+                return;
+            }
+            case 'outfit': {
+                const character = context.charactersOf(img).find(c => c.name === action.character);
+                if (!character) {
+                    plan.skipped.push({ img, reason: `${action.character} not in prompt` });
+                } else if (character.outfit === action.outfit) {
+                    plan.skipped.push({ img, reason: `already ${action.outfit}` });
+                } else {
+                    const before = img.outfitOverride || {};
+                    plan.changes.push({
+                        img,
+                        before: { outfitOverride: before },
+                        after: { outfitOverride: { ...before, [action.character]: action.outfit } },
+                        detail: `${character.outfit} → ${action.outfit}`
+                    });
+                }
+                return;
+            }
+            case 'replace': {
+                const hits = matcher ? Array.from(img.prompt.matchAll(matcher)).length : 0;
+                if (!matcher || hits === 0) {
+                    plan.skipped.push({ img, reason: 'no match' });
+                } else {
+                    const prompt = img.prompt.replace(matcher, () => action.replace);
+                    plan.changes.push({ img, before: { prompt: img.prompt }, after: { prompt }, detail: `${hits} replacement${hits === 1 ? '' : 's'}` });
+                }
+                return;
+            }
+        }
+    });
+    return plan;
+};
@@ -0,0 +1,151 @@
+import { CastMember } from './types';
+
+// --- Cast Registry ---
+// Who can appear in a prompt and how their names are spotted. Stored in
+// localStorage per browser; export/import moves a cast between titles.
+
+const STORAGE_KEY = 'cast-registry';
+
+export const DEFAULT_CAST: CastMember[] = [
+    { id: 'mc', name: 'MC', aliases: ['main character', 'protagonist'], matchMode: 'word', caseSensitive: false, defaultOutfit: 'default' },
+    { id: 'raka', name: 'Raka', aliases: ['mas raka', 'kak raka'], matchMode: 'word', caseSensitive: false, defaultOutfit: 'default' },
+    { id: 'alina', name: 'Alina', aliases: ['alin', 'neng alina'], matchMode: 'word', caseSensitive: false, defaultOutfit: 'default' },
+    { id: 'aruna', name: 'Aruna', aliases: ['runa', 'kak aruna'], matchMode: 'word', caseSensitive: false, defaultOutfit: 'default' }
+];
+
+const MATCH_MODES: CastMember['matchMode'][] = ['word', 'substring', 'regex'];
+
+// Checks a stored or imported cast entry by entry; throws on the first bad one so
+// an unknown match mode never quietly falls back to substring matching
+export const parseCast = (data: unknown): CastMember[] => {
+    if (!Array.isArray(data)) throw new Error('Expected a JSON array of { name, aliases } entries.');
+    const ids = new Set<string>();
+    return data.map((entry: unknown, i) => {
+        const m = (entry !== null && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+        const where = `Entry ${i + 1}`;
+        if (typeof m.name !== 'string') throw new Error(`${where}: name must be a string.`);
+        if (!Array.isArray(m.aliases) || m.aliases.some(a => typeof a !== 'string')) throw new Error(`${where}: aliases must be a list of strings.`);
+        if (m.id !== undefined && typeof m.id !== 'string') throw new Error(`${where}: id must be a string.`);
+        const matchMode = m.matchMode ?? 'word';
+        if (!MATCH_MODES.includes(matchMode as CastMember['matchMode'])) {
+            throw new Error(`${where}: unknown matchMode "${String(matchMode)}" (expected ${MATCH_MODES.join(', ')}).`);
+        }
+
+        // Duplicates get a suffix, so editing one member never edits another
+        const base = (m.id as string | undefined) || `cast_${i}`;
+        let id = base;
+        for (let n = 2; ids.has(id); n++) id = `${base}_${n}`;
+        ids.add(id);
+
+        return {
+            id,
+            name: m.name,
+            aliases: m.aliases as string[],
+            matchMode: matchMode as CastMember['matchMode'],
+            caseSensitive: m.caseSensitive === true,
+            defaultOutfit: typeof m.defaultOutfit === 'string' && m.defaultOutfit ? m.defaultOutfit : 'default',
+            referenceImage: typeof m.referenceImage === 'string' ? m.referenceImage : undefined
+        };
+    });
+};
+
+export const loadCast = (): CastMember[] => {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return stored === null ? DEFAULT_CAST : parseCast(stored);
+    } catch {
+        return DEFAULT_CAST;
+    }
+};
+
+export const saveCast = (cast: CastMember[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(cast));
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Compiled matchers are cached per member object; editing a member creates a new object
+const matcherCache = new WeakMap<CastMember, RegExp | null>();
+
+// Every caller gets its own copy: a shared global regex would carry lastIndex
+// from one scan into the next and skip earlier mentions
+export const buildMatcher = (member: CastMember): RegExp | null => {
+    const cached = compileMatcher(member);
+    return cached && new RegExp(cached);
+};
+
+const compileMatcher = (member: CastMember): RegExp | null => {
+    if (matcherCache.has(member)) return matcherCache.get(member)!;
+    const terms = [member.name, ...member.aliases].map(t => t.trim()).filter(Boolean);
+    const flags = member.caseSensitive ? 'gu' : 'giu';
+    let matcher: RegExp | null = null;
+    try {
+        if (member.matchMode === 'regex') {
+            // Aliases are raw patterns; the display name still matches as a whole word
+            const patterns = [`(?<![\\p{L}\\p{N}])${escapeRegExp(member.name)}(?![\\p{L}\\p{N}])`, ...member.aliases.filter(Boolean)];
+            matcher = new RegExp(patterns.map(p => `(?:${p})`).join('|'), flags);
+        } else if (terms.length > 0) {
+            const body = terms.map(escapeRegExp).join('|');
+            matcher = member.matchMode === 'word'
+                // \b is ASCII-only, so use Unicode letter/number lookarounds instead
+                ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${body})(?![\\p{L}\\p{N}])`, flags)
+                : new RegExp(body, flags);
+        }
+    } catch {
+        matcher = null; // Invalid user regex; the registry UI flags it
+    }
+    matcherCache.set(member, matcher);
+    return matcher;
+};
+
+export interface CastMatch {
+    member: CastMember;
+    index: number; // First occurrence in the prompt
+    length: number;
+}
+
+// Members in order of first appearance in the prompt
+export const detectCast = (prompt: string, cast: CastMember[]): CastMatch[] => {
+    if (!prompt) return [];
+    const matches: CastMatch[] = [];
+    cast.forEach(member => {
+        const matcher = buildMatcher(member);
+        if (!matcher) return;
+        const hit = matcher.exec(prompt);
+        if (hit) matches.push({ member, index: hit.index, length: hit[0].length });
+    });
+    return matches.sort((a, b) => a.index - b.index);
+};
+
+// All occurrences, for highlighting in the registry tester
+export const findCastOccurrences = (prompt: string, cast: CastMember[]): CastMatch[] => {
+    const hits: CastMatch[] = [];
+    cast.forEach(member => {
+        const matcher = buildMatcher(member);
+        if (!matcher) return;
+        for (const hit of prompt.matchAll(matcher)) {
+            if (hit[0].length === 0) continue;
+            hits.push({ member, index: hit.index ?? 0, length: hit[0].length });
+        }
+    });
+    return hits.sort((a, b) => a.index - b.index);
+};
+
+// Shrinks an uploaded reference picture so the registry stays small enough for localStorage
+export const toReferenceThumbnail = (file: File, maxEdge = 256): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            const ratio = Math.min(1, maxEdge / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(img.naturalWidth * ratio);
+            canvas.height = Math.round(img.naturalHeight * ratio);
+            canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            resolve(canvas.toDataURL('image/jpeg', 0.85));
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Could not read ${file.name}`));
+        };
+        img.src = url;
+    });
@@ -0,0 +1,89 @@
+import { Character, SceneLocation } from './types';
+import { locationPath, GENERIC_LOCATION } from './locationLibrary';
+import { DEFAULT_OUTFIT } from './outfitCatalog';
+
+// --- Scene Continuity ---
+// Walks each chapter's shots in order and flags outfit or setting changes a
+// reader would notice. Only compares what the detectors actually found: an
+// outfit the prompt doesn't name, or a generic setting, never conflicts.
+
+export interface ContinuityShot {
+    imageId: number;
+    name: string;
+    chapter: number;
+    scene: number;
+    characters: Character[]; // Outfit overrides applied
+    setting: string;
+}
+
+export interface ContinuityWarning {
+    id: string; // Stable while the change stays the same, so acknowledgements stick
+    kind: 'outfit' | 'setting';
+    imageId: number;
+    previousImageId: number;
+    chapter: number;
+    subject: string; // Character name, or "setting"
+    from: string;
+    to: string;
+}
+
+// Moving between a location and its parent or sibling (ward → VIP room) is not a jump
+const sameFamily = (locations: SceneLocation[], a: string, b: string) => {
+    const root = (id: string) => locationPath(locations, id)[0]?.id ?? id;
+    return root(a) === root(b);
+};
+
+export const checkContinuity = (shots: ContinuityShot[], locations: SceneLocation[]): ContinuityWarning[] => {
+    const warnings: ContinuityWarning[] = [];
+    const ordered = [...shots].sort((a, b) => a.chapter - b.chapter || a.scene - b.scene);
+
+    let chapter: number | null = null;
+    let lastSetting: ContinuityShot | null = null;
+    // Each character's most recent explicit outfit in this chapter
+    let lastOutfit = new Map<string, { outfit: string, shot: ContinuityShot }>();
+
+    ordered.forEach(shot => {
+        if (shot.chapter !== chapter) {
+            chapter = shot.chapter;
+            lastSetting = null;
+            lastOutfit = new Map();
+        }
+        const key = `${shot.chapter}_${shot.scene}`;
+
+        if (shot.setting !== GENERIC_LOCATION) {
+            const prev: ContinuityShot | null = lastSetting;
+            if (prev && prev.setting !== shot.setting && !sameFamily(locations, prev.setting, shot.setting)) {
+                warnings.push({
+                    id: `setting:${key}:${prev.setting}>${shot.setting}`,
+                    kind: 'setting',
+                    imageId: shot.imageId,
+                    previousImageId: prev.imageId,
+                    chapter: shot.chapter,
+                    subject: 'setting',
+                    from: prev.setting,
+                    to: shot.setting
+                });
+            }
+            lastSetting = shot;
+        }
+
+        shot.characters.forEach(c => {
+            if (c.outfit === DEFAULT_OUTFIT) return;
+            const prev = lastOutfit.get(c.name);
+            if (prev && prev.outfit !== c.outfit) {
+                warnings.push({
+                    id: `outfit:${key}:${c.name}:${prev.outfit}>${c.outfit}`,
+                    kind: 'outfit',
+                    imageId: shot.imageId,
+                    previousImageId: prev.shot.imageId,
+                    chapter: shot.chapter,
+                    subject: c.name,
+                    from: prev.outfit,
+                    to: c.outfit
+                });
+            }
+            lastOutfit.set(c.name, { outfit: c.outfit, shot });
+        });
+    });
+    return warnings;
+};
@@ -0,0 +1,172 @@
+import JSZip from 'jszip';
+import { AudioCue, AudioCueKind, BackgroundEntry, ExtractionResult, PromptEntry, TimeOfDay } from './types';
+
+// --- Screenplay DOCX Parser ---
+// Reads word/document.xml straight from the uploaded .docx and turns the
+// [insert image] / [background] tags into the same structure our Python
+// extraction script produced.
+
+export interface ExtractionOptions {
+    log?: (message: string) => void;
+    // Maps a background description to a location id (e.g. "hospital_vip")
+    detectLocation?: (text: string) => string;
+}
+
+const IMAGE_TAG = /\[\s*insert\s+image\s*\]/i;
+const BACKGROUND_TAG = /\[\s*background\s*\]/i;
+const CHAPTER_HEADING = /^\s*(?:chapter|chap|bab|episode|ep)\.?\s*(\d+)\b/i;
+const AUDIO_TAGS: [AudioCueKind, RegExp][] = [
+    ['bgm', /\[\s*(?:bgm|music|musik)\s*\]/i],
+    ['sfx', /\[\s*(?:sfx|sound|se)\s*\]/i],
+    ['voice', /\[\s*(?:voice|vo)\s*\]/i],
+];
+
+const isTagLine = (text: string): boolean =>
+    IMAGE_TAG.test(text) || BACKGROUND_TAG.test(text) || AUDIO_TAGS.some(([, tag]) => tag.test(text));
+
+const TIME_OF_DAY_KEYWORDS: [TimeOfDay, RegExp][] = [
+    ['night', /\b(night|midnight|malam|tengah malam)\b/i],
+    ['evening', /\b(evening|sunset|dusk|sore|senja)\b/i],
+    ['morning', /\b(morning|dawn|sunrise|pagi|subuh)\b/i],
+    ['day', /\b(day|daytime|noon|afternoon|siang)\b/i],
+];
+
+export const detectTimeOfDay = (text: string): TimeOfDay => {
+    const normalized = text.replace(/[_-]+/g, ' ');
+    for (const [time, pattern] of TIME_OF_DAY_KEYWORDS) {
+        if (pattern.test(normalized)) return time;
+    }
+    return 'unspecified';
+};
+
+const slugify = (text: string): string =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'unknown';
+
+const readParagraphs = (xml: string): string[] => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('word/document.xml is not valid XML.');
+    }
+
+    const paragraphs: string[] = [];
+    const nodes = doc.getElementsByTagName('w:p');
+    for (let i = 0; i < nodes.length; i++) {
+        let text = '';
+        const walk = (node: Element) => {
+            for (let c = 0; c < node.children.length; c++) {
+                const child = node.children[c];
+                // Text boxes nest whole paragraphs; those are read as paragraphs of their own
+                if (child.tagName === 'w:p') continue;
+                if (child.tagName === 'w:t') text += child.textContent || '';
+                else if (child.tagName === 'w:tab' || child.tagName === 'w:br' || child.tagName === 'w:cr') text += ' ';
+                else walk(child);
+            }
+        };
+        walk(nodes[i]);
+        paragraphs.push(text.replace(/\u00a0/g, ' '));
+    }
+    return paragraphs;
+};
+
+// The tag is either followed by the description on the same line, or the
+// description sits in the next non-empty paragraph.
+const takeTagBody = (paragraphs: string[], index: number, tag: RegExp): { body: string, consumed: number } => {
+    const inline = paragraphs[index].replace(tag, '').trim();
+    if (inline) return { body: inline, consumed: 0 };
+
+    for (let next = index + 1; next < paragraphs.length; next++) {
+        const text = paragraphs[next].trim();
+        if (!text) continue;
+        if (isTagLine(text) || CHAPTER_HEADING.test(text)) break;
+        return { body: text, consumed: next - index };
+    }
+    return { body: '', consumed: 0 };
+};
+
+export const extractScreenplayFromDocx = async (file: File, options: ExtractionOptions = {}): Promise<ExtractionResult> => {
+    const log = options.log || (() => {});
+    const detectLocation = options.detectLocation || slugify;
+    log('Reading DOCX binary structure...');
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch {
+        throw new Error(`${file.name} is not a valid .docx archive.`);
+    }
+
+    const documentXml = zip.file('word/document.xml');
+    if (!documentXml) throw new Error('word/document.xml not found. Is this a Word document?');
+
+    log('Extracting XML content from document...');
+    const paragraphs = readParagraphs(await documentXml.async('string'));
+    log(`Found ${paragraphs.length} paragraphs.`);
+
+    log('Parsing [insert image] tags...');
+    log('Parsing [background] tags...');
+    log('Parsing [bgm] / [sfx] / [voice] tags...');
+
+    const images: PromptEntry[] = [];
+    const backgrounds: BackgroundEntry[] = [];
+    const audio: AudioCue[] = [];
+    let chapter = 1;
+    let shot = 0;
+
+    for (let i = 0; i < paragraphs.length; i++) {
+        const text = paragraphs[i].trim();
+        if (!text) continue;
+
+        const heading = text.match(CHAPTER_HEADING);
+        if (heading && !isTagLine(text)) {
+            chapter = parseInt(heading[1], 10);
+            shot = 0;
+            continue;
+        }
+
+        if (IMAGE_TAG.test(text)) {
+            const { body, consumed } = takeTagBody(paragraphs, i, IMAGE_TAG);
+            i += consumed;
+            if (!body) {
+                log(`⚠️ Empty [insert image] tag in chapter ${chapter}, skipped.`);
+                continue;
+            }
+            shot++;
+            images.push({ outputAi: `${body} || Chap ${chapter}_${shot}` });
+        } else if (BACKGROUND_TAG.test(text)) {
+            const { body, consumed } = takeTagBody(paragraphs, i, BACKGROUND_TAG);
+            i += consumed;
+            if (!body) {
+                log(`⚠️ Empty [background] tag in chapter ${chapter}, skipped.`);
+                continue;
+            }
+            const detected = detectLocation(body);
+            backgrounds.push({
+                id: `bg_${chapter}_${shot}_${backgrounds.length + 1}`,
+                locationId: detected && detected !== 'generic' ? detected : slugify(body.split(/[,.;:-]/)[0]),
+                timeOfDay: detectTimeOfDay(body),
+                prompt: body,
+                chapter,
+                scene: shot
+            });
+        } else {
+            const audioTag = AUDIO_TAGS.find(([, tag]) => tag.test(text));
+            if (!audioTag) continue;
+            const [kind, tag] = audioTag;
+            const { body, consumed } = takeTagBody(paragraphs, i, tag);
+            i += consumed;
+            if (!body) {
+                log(`⚠️ Empty [${kind}] tag in chapter ${chapter}, skipped.`);
+                continue;
+            }
+            audio.push({
+                id: `${kind}_${chapter}_${shot}_${audio.length + 1}`,
+                kind,
+                cue: body,
+                chapter,
+                scene: shot
+            });
+        }
+    }
+
+    log(`Extracted ${images.length} image prompts, ${backgrounds.length} backgrounds and ${audio.length} audio cues.`);
+    return { images, backgrounds, audio };
+};
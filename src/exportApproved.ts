@@ -0,0 +1,78 @@
+import JSZip from 'jszip';
+import { Character } from './types';
+
+// --- Approved Asset Export ---
+// Builds the ZIP our build pipeline ingests: images/<file> plus a
+// manifest.json describing every shot.
+
+export interface ExportEntry {
+    name: string; // Source file name
+    url: string;
+    chapter: number | null;
+    scene: number | null;
+    prompt: string;
+    originalPrompt: string;
+    characters: Character[]; // Outfit overrides applied
+    setting: string;
+    rejection: { reasons: string[], note: string } | null; // Last rejection before approval, if any
+}
+
+export interface ExportManifest {
+    generatedAt: string;
+    count: number;
+    images: (Omit<ExportEntry, 'url' | 'name'> & { file: string, source: string, promptEdited: boolean })[];
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg'
+};
+
+// Regenerated images may come back in another format than the upload
+const fileNameFor = (name: string, mime: string, used: Set<string>): string => {
+    const stem = name.replace(/\.[^.]+$/, '');
+    const ext = MIME_EXTENSIONS[mime] || name.split('.').pop() || 'png';
+    let candidate = `${stem}.${ext}`;
+    for (let n = 2; used.has(candidate); n++) candidate = `${stem}_${n}.${ext}`;
+    used.add(candidate);
+    return candidate;
+};
+
+export const buildExportZip = async (
+    entries: ExportEntry[],
+    onProgress: (done: number, total: number) => void = () => {}
+): Promise<Blob> => {
+    const zip = new JSZip();
+    const folder = zip.folder('images')!;
+    const used = new Set<string>();
+    const manifest: ExportManifest = { generatedAt: new Date().toISOString(), count: entries.length, images: [] };
+
+    for (let i = 0; i < entries.length; i++) {
+        const { url, name, ...entry } = entries[i];
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Could not read ${name} (${res.status})`);
+        const blob = await res.blob();
+        const fileName = fileNameFor(name, blob.type, used);
+        folder.file(fileName, blob);
+        manifest.images.push({
+            file: `images/${fileName}`,
+            source: name,
+            ...entry,
+            promptEdited: entry.prompt !== entry.originalPrompt
+        });
+        onProgress(i + 1, entries.length);
+    }
+
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+};
@@ -0,0 +1,144 @@
+import { PromptEntry } from './types';
+import { escapeRegExp } from './castRegistry';
+
+// --- Filename Matching ---
+// Turns file names ("chap3_5_v2.png", "ep02_sc14.webp") and prompt keys
+// ("Chap 1_1") into the same chapter/shot key so images find their prompts.
+// Schemes are tried in order; the first one that matches wins.
+
+export interface MatchScheme {
+    id: string;
+    label: string;
+    kind: 'template' | 'regex';
+    // Template: literal text plus {chapter}/{scene}; "_", "-" and spaces match any separator.
+    // Regex: needs (?<chapter>...) and (?<scene>...) groups, or two plain groups in that order.
+    pattern: string;
+    enabled: boolean;
+}
+
+export interface MatchingConfig {
+    schemes: MatchScheme[];
+    variantSuffixes: string[]; // Regexes stripped from the end of a file stem, e.g. "_v\\d+"
+}
+
+export interface ShotKey {
+    chapter: number;
+    scene: number;
+    schemeId: string;
+}
+
+const STORAGE_KEY = 'filename-matching';
+
+export const DEFAULT_MATCHING: MatchingConfig = {
+    schemes: [
+        { id: 'chap', label: 'Chapter_shot', kind: 'template', pattern: 'chap_{chapter}_{scene}', enabled: true },
+        { id: 'episode', label: 'Episode/scene', kind: 'template', pattern: 'ep{chapter}_sc{scene}', enabled: true },
+        { id: 'bab', label: 'Bab/adegan', kind: 'regex', pattern: '(?:bab|chapter)\\s*(?<chapter>\\d+)\\D+?(?<scene>\\d+)', enabled: true }
+    ],
+    variantSuffixes: ['_compressed', '_v\\d+', '_final', '[-_ ]copy', '\\s*\\(\\d+\\)']
+};
+
+export const loadMatching = (): MatchingConfig => {
+    try {
+        return { ...DEFAULT_MATCHING, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+    } catch {
+        return DEFAULT_MATCHING;
+    }
+};
+
+export const saveMatching = (config: MatchingConfig) => localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+
+// "chap_{chapter}_{scene}" matches chap_1_3, chap3_5 and "Chap 1_3": separators are
+// optional next to literal text but required between two numbers.
+const templateToRegExp = (template: string): RegExp => {
+    const parts = template.split(/(\{chapter\}|\{scene\}|[_\s-]+)/).filter(Boolean);
+    const isToken = (part?: string) => part === '{chapter}' || part === '{scene}';
+    const body = parts.map((part, i) => {
+        if (isToken(part)) return `(?<${part.slice(1, -1)}>\\d+)`;
+        if (/^[_\s-]+$/.test(part)) return isToken(parts[i - 1]) && isToken(parts[i + 1]) ? '[_\\s-]+' : '[_\\s-]*';
+        return escapeRegExp(part);
+    }).join('');
+    return new RegExp(`(?<![\\p{L}])${body}(?!\\d)`, 'iu');
+};
+
+const compiled = new WeakMap<MatchScheme, RegExp | null>();
+
+// Null for a broken user regex; the matching UI flags it
+export const compileScheme = (scheme: MatchScheme): RegExp | null => {
+    if (compiled.has(scheme)) return compiled.get(scheme)!;
+    let regex: RegExp | null = null;
+    try {
+        regex = scheme.kind === 'template' ? templateToRegExp(scheme.pattern) : new RegExp(scheme.pattern, 'iu');
+    } catch {
+        regex = null;
+    }
+    compiled.set(scheme, regex);
+    return regex;
+};
+
+export const parseShotKey = (text: string, config: MatchingConfig): ShotKey | null => {
+    for (const scheme of config.schemes) {
+        if (!scheme.enabled) continue;
+        const hit = compileScheme(scheme)?.exec(text);
+        if (!hit) continue;
+        const chapter = hit.groups?.chapter ?? hit[1];
+        const scene = hit.groups?.scene ?? hit[2];
+        if (chapter === undefined || scene === undefined) continue;
+        return { chapter: parseInt(chapter, 10), scene: parseInt(scene, 10), schemeId: scheme.id };
+    }
+    return null;
+};
+
+export const stripVariants = (fileName: string, config: MatchingConfig): string => {
+    let stem = fileName.replace(/\.[a-z0-9]{2,5}$/i, '');
+    for (let changed = true; changed;) {
+        changed = false;
+        for (const suffix of config.variantSuffixes) {
+            let next = stem;
+            try {
+                next = stem.replace(new RegExp(`(?:${suffix})$`, 'i'), '');
+            } catch {
+                continue;
+            }
+            if (next !== stem && next.length > 0) {
+                stem = next;
+                changed = true;
+            }
+        }
+    }
+    return stem;
+};
+
+export const parseFileKey = (fileName: string, config: MatchingConfig): ShotKey | null =>
+    parseShotKey(stripVariants(fileName, config), config);
+
+export const shotKeyId = (key: { chapter: number, scene: number }) => `${key.chapter}_${key.scene}`;
+
+// "Prompt || Chap 1_1" keeps the key on the right; entries without "||"
+// carry it inline ("Chap 1_1: prompt"), so it's cut out of the prompt text.
+export const splitPromptEntry = (outputAi: string, config: MatchingConfig): { prompt: string, key: ShotKey | null } => {
+    if (outputAi.includes('||')) {
+        const [prompt, ...rest] = outputAi.split('||');
+        return { prompt: prompt.trim(), key: parseShotKey(rest.join('||'), config) };
+    }
+    const key = parseShotKey(outputAi, config);
+    if (!key) return { prompt: outputAi.trim(), key: null };
+    const scheme = config.schemes.find(s => s.id === key.schemeId)!;
+    const prompt = outputAi.replace(compileScheme(scheme)!, '').replace(/^[\s:|\-–]+|[\s:|\-–]+$/g, '');
+    return { prompt, key };
+};
+
+// First entry wins when two share a key
+export const indexPrompts = (entries: PromptEntry[], config: MatchingConfig): Map<string, string> => {
+    const index = new Map<string, string>();
+    entries.forEach(entry => {
+        const { prompt, key } = splitPromptEntry(entry.outputAi || '', config);
+        if (key && !index.has(shotKeyId(key))) index.set(shotKeyId(key), prompt);
+    });
+    return index;
+};
+
+export const matchPromptToImage = (imageName: string, index: Map<string, string>, config: MatchingConfig): string | null => {
+    const key = parseFileKey(imageName, config);
+    return key ? index.get(shotKeyId(key)) ?? null : null;
+};
@@ -0,0 +1,85 @@
+// --- QC Hotkeys ---
+// Bindings are stored as combo strings like "Shift+P" or "ArrowRight" and
+// persisted in localStorage so each reviewer keeps their own layout.
+
+export type HotkeyAction = 'approve' | 'reject' | 'regenerate' | 'compare' | 'next' | 'prev' | 'resetPrompt';
+
+export type HotkeyMap = Record<HotkeyAction, string>;
+
+export const HOTKEY_ACTIONS: { id: HotkeyAction, label: string }[] = [
+    { id: 'approve', label: 'Approve' },
+    { id: 'reject', label: 'Reject' },
+    { id: 'regenerate', label: 'Regenerate' },
+    { id: 'compare', label: 'Toggle compare' },
+    { id: 'next', label: 'Next image' },
+    { id: 'prev', label: 'Previous image' },
+    { id: 'resetPrompt', label: 'Reset prompt' }
+];
+
+export const DEFAULT_HOTKEYS: HotkeyMap = {
+    approve: 'A',
+    reject: 'X',
+    regenerate: 'G',
+    compare: 'C',
+    next: 'ArrowRight',
+    prev: 'ArrowLeft',
+    resetPrompt: 'Shift+P'
+};
+
+// Opens the cheat sheet; fixed so nobody can lock themselves out of remapping
+export const CHEAT_SHEET_KEY = '?';
+
+const STORAGE_KEY = 'qc-hotkeys';
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+export const loadHotkeys = (): HotkeyMap => {
+    try {
+        return { ...DEFAULT_HOTKEYS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+    } catch {
+        return DEFAULT_HOTKEYS;
+    }
+};
+
+export const saveHotkeys = (map: HotkeyMap) => localStorage.setItem(STORAGE_KEY, JSON.stringify(map));
+
+// Returns null for bare modifier presses
+export const eventToCombo = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    // "?" already implies Shift on most layouts
+    if (key === CHEAT_SHEET_KEY) return key;
+    const parts: string[] = [];
+    if (e.ctrlKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.metaKey) parts.push('Meta');
+    if (e.shiftKey) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+};
+
+export const findAction = (map: HotkeyMap, combo: string): HotkeyAction | null =>
+    (Object.keys(map) as HotkeyAction[]).find(action => map[action] === combo) || null;
+
+// Rebinding to a key another action uses swaps the two bindings
+export const rebind = (map: HotkeyMap, action: HotkeyAction, combo: string): HotkeyMap => {
+    const clash = findAction(map, combo);
+    const next = { ...map, [action]: combo };
+    if (clash && clash !== action) next[clash] = map[action];
+    return next;
+};
+
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+    const el = target as HTMLElement | null;
+    if (!el) return false;
+    return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowRight: '→',
+    ArrowLeft: '←',
+    ArrowUp: '↑',
+    ArrowDown: '↓'
+};
+
+export const formatCombo = (combo: string): string =>
+    combo.split('+').map(part => KEY_LABELS[part] || part).join(' + ');
@@ -0,0 +1,80 @@
+import { SceneLocation } from './types';
+import { escapeRegExp } from './castRegistry';
+
+// --- Location Library ---
+// Settings a prompt can take place in. Child locations (a VIP room) inherit
+// their parent's keywords, so "VIP room at the rumah sakit" ranks the VIP
+// room above the hospital itself.
+
+const STORAGE_KEY = 'location-library';
+
+export const GENERIC_LOCATION = 'generic';
+
+export const DEFAULT_LOCATIONS: SceneLocation[] = [
+    { id: 'hospital_regular', label: 'Hospital', keywords: ['hospital', 'rumah sakit', 'ward', 'bangsal'], priority: 2 },
+    { id: 'hospital_vip', label: 'Hospital VIP Room', keywords: ['vip', 'vip room', 'kamar vip'], priority: 3, parentId: 'hospital_regular' },
+    { id: 'apartment', label: 'Apartment', keywords: ['apartment', 'apartemen'], priority: 0 },
+    { id: 'apartment_living_room', label: 'Apartment Living Room', keywords: ['living room', 'living', 'ruang tamu'], priority: 1, parentId: 'apartment' },
+    { id: 'apartment_bedroom', label: 'Apartment Bedroom', keywords: ['bedroom', 'kamar tidur'], priority: 0, parentId: 'apartment' }
+];
+
+export const loadLocations = (): SceneLocation[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return Array.isArray(stored) ? stored : DEFAULT_LOCATIONS;
+    } catch {
+        return DEFAULT_LOCATIONS;
+    }
+};
+
+export const saveLocations = (locations: SceneLocation[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(locations));
+
+// Root first; stops on cycles a careless edit may introduce
+export const locationPath = (locations: SceneLocation[], id: string): SceneLocation[] => {
+    const path: SceneLocation[] = [];
+    for (let loc = locations.find(l => l.id === id); loc && !path.includes(loc); loc = locations.find(l => l.id === loc!.parentId)) {
+        path.unshift(loc);
+    }
+    return path;
+};
+
+export interface LocationCandidate {
+    location: SceneLocation;
+    score: number;
+    hits: string[]; // Matched keywords, own and inherited
+}
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface LocationRanking {
+    candidates: LocationCandidate[]; // Best first
+    confidence: number; // 0..1 for the top candidate
+    level: Confidence;
+}
+
+const keywordHits = (prompt: string, location: SceneLocation): string[] =>
+    location.keywords.map(k => k.trim()).filter(Boolean).filter(keyword =>
+        new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, 'iu').test(prompt));
+
+export const rankLocations = (prompt: string, locations: SceneLocation[]): LocationRanking => {
+    const own = new Map(locations.map(l => [l.id, prompt ? keywordHits(prompt, l) : []]));
+    const candidates: LocationCandidate[] = [];
+    locations.forEach(location => {
+        if (own.get(location.id)!.length === 0) return;
+        const hits = locationPath(locations, location.id).flatMap(l => own.get(l.id) || []);
+        candidates.push({ location, hits, score: hits.length * 10 + location.priority });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const [top] = candidates;
+    if (!top) return { candidates, confidence: 0, level: 'low' };
+    // A matched parent backs its child up rather than competing with it
+    const ancestors = locationPath(locations, top.location.id).map(l => l.id);
+    const rival = candidates.find(c => c !== top && !ancestors.includes(c.location.id));
+    const margin = top.score / (top.score + Math.max(0, rival?.score ?? 0)) || 0;
+    const confidence = Math.min(1, margin * (top.hits.length >= 2 ? 1 : 0.8));
+    return { candidates, confidence, level: confidence >= 0.75 ? 'high' : confidence >= 0.5 ? 'medium' : 'low' };
+};
+
+export const detectSettingFromPrompt = (prompt: string, locations: SceneLocation[]): string =>
+    rankLocations(prompt, locations).candidates[0]?.location.id ?? GENERIC_LOCATION;
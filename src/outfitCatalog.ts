@@ -0,0 +1,90 @@
+import { CastMember, Outfit } from './types';
+import { escapeRegExp, findCastOccurrences } from './castRegistry';
+
+// --- Outfit Catalog ---
+// The wardrobe every character can be dressed in. 'default' is reserved and
+// means "whatever the prompt already says", so it never lives in the catalog.
+
+const STORAGE_KEY = 'outfit-catalog';
+
+export const DEFAULT_OUTFIT = 'default';
+
+export const DEFAULT_OUTFITS: Outfit[] = [
+    { id: 'patient', label: 'Patient Gown', icon: '🏥', keywords: ['baju pasien', 'patient', 'hospital gown'], promptTokens: 'wearing a light blue hospital patient gown', characters: [] },
+    { id: 'casual', label: 'Casual Wear', icon: '👕', keywords: ['casual', 'kaos', 't-shirt'], promptTokens: 'wearing casual clothes, t-shirt and jeans', characters: [] },
+    { id: 'formal', label: 'Formal Suit', icon: '👔', keywords: ['formal', 'suit', 'jas'], promptTokens: 'wearing a formal suit', characters: [] },
+    { id: 'santai', label: 'Home Wear', icon: '🏠', keywords: ['santai', 'home wear', 'pajamas', 'piyama'], promptTokens: 'wearing relaxed home clothes', characters: [] }
+];
+
+export const loadOutfits = (): Outfit[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return Array.isArray(stored) ? stored : DEFAULT_OUTFITS;
+    } catch {
+        return DEFAULT_OUTFITS;
+    }
+};
+
+export const saveOutfits = (outfits: Outfit[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(outfits));
+
+export const canWear = (outfit: Outfit, memberId: string) =>
+    outfit.characters.length === 0 || outfit.characters.includes(memberId);
+
+// A character's wardrobe, in catalog order
+export const wardrobeFor = (outfits: Outfit[], memberId: string | undefined) =>
+    memberId ? outfits.filter(o => canWear(o, memberId)) : outfits;
+
+export const outfitLabel = (outfits: Outfit[], id: string) => {
+    if (id === DEFAULT_OUTFIT) return 'Default Prompt';
+    const outfit = outfits.find(o => o.id === id);
+    return outfit ? `${outfit.icon} ${outfit.label}` : id;
+};
+
+// Crossing a sentence boundary counts as this many extra characters
+const SENTENCE_PENALTY = 200;
+const SENTENCE_BREAK = /[.!?\n;]/;
+
+interface Span { start: number, end: number }
+
+const gap = (prompt: string, a: Span, b: Span) => {
+    const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+    const between = prompt.slice(first.end, second.start);
+    return Math.max(0, second.start - first.end) + (SENTENCE_BREAK.test(between) ? SENTENCE_PENALTY : 0);
+};
+
+// Gives each character the outfit named closest after one of their mentions,
+// so "Raka in a formal suit, Alina still in baju pasien" dresses them
+// differently. A keyword with nobody before it in its sentence goes to the
+// nearest mention instead. Characters without a keyword get their default.
+export const detectOutfits = (prompt: string, cast: CastMember[], outfits: Outfit[]): Record<string, string> => {
+    const mentions = findCastOccurrences(prompt, cast).map(m => ({ member: m.member, start: m.index, end: m.index + m.length }));
+    const best: Record<string, { outfit: string, distance: number }> = {};
+
+    outfits.forEach(outfit => {
+        const keywords = outfit.keywords.map(k => k.trim()).filter(Boolean);
+        if (keywords.length === 0) return;
+        const matcher = new RegExp(`(?<![\\p{L}\\p{N}])(?:${keywords.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+        for (const hit of prompt.matchAll(matcher)) {
+            const span = { start: hit.index ?? 0, end: (hit.index ?? 0) + hit[0].length };
+            let owner: string | null = null;
+            let distance = Infinity;
+            for (const m of mentions) {
+                if (!canWear(outfit, m.member.id)) continue;
+                if (span.start < m.end && m.start < span.end) continue; // Keyword is part of the name
+                // Mentions after the keyword only win when nobody precedes it in the sentence
+                const d = gap(prompt, m, span) + (m.start > span.start ? SENTENCE_PENALTY / 2 : 0);
+                if (d < distance) {
+                    owner = m.member.id;
+                    distance = d;
+                }
+            }
+            if (owner && (!best[owner] || distance < best[owner].distance)) best[owner] = { outfit: outfit.id, distance };
+        }
+    });
+
+    const result: Record<string, string> = {};
+    mentions.forEach(({ member }) => {
+        result[member.id] = best[member.id]?.outfit ?? member.defaultOutfit;
+    });
+    return result;
+};
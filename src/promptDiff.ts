@@ -0,0 +1,101 @@
+import { PromptEntry, QCImage } from './types';
+import { MatchingConfig, parseFileKey, shotKeyId, splitPromptEntry } from './filenameMatching';
+import { PromptAssignments } from './reconciliation';
+
+// --- Prompt Diff & Export ---
+// Word-level diff of a reviewer's edit against the original prompt, and the
+// corrected prompt JSON our generation scripts read back in.
+
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Past this many token pairs the LCS table gets too big; show a plain replace
+const MAX_DIFF_CELLS = 250_000;
+
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    // Whitespace runs are tokens too, so joining the parts rebuilds both texts
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [{ type: 'removed', text: before }, { type: 'added', text: after }];
+    }
+
+    // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return parts;
+};
+
+// The right-hand side of "Prompt || Chap 1_1"; inline keys are normalised to that form
+const entryKeyText = (outputAi: string, config: MatchingConfig): string => {
+    if (outputAi.includes('||')) return outputAi.split('||').slice(1).join('||').trim();
+    const { key } = splitPromptEntry(outputAi, config);
+    return key ? `Chap ${key.chapter}_${key.scene}` : '';
+};
+
+export const isPromptEdited = (img: QCImage) => img.prompt !== img.originalPrompt;
+
+// Rewrites promptData with the reviewers' edits, keeping each entry's key as it
+// was. Edited images with no entry of their own are appended under their file key.
+export const buildEditedPromptJson = (
+    promptData: PromptEntry[],
+    images: QCImage[],
+    config: MatchingConfig,
+    assignments: PromptAssignments
+): { entries: PromptEntry[], updated: number, appended: number } => {
+    const entries = promptData.map(entry => ({ ...entry }));
+    const firstByKey = new Map<string, number>();
+    entries.forEach((entry, index) => {
+        const { key } = splitPromptEntry(entry.outputAi || '', config);
+        if (key && !firstByKey.has(shotKeyId(key))) firstByKey.set(shotKeyId(key), index);
+    });
+
+    let updated = 0;
+    let appended = 0;
+    images.filter(isPromptEdited).forEach(img => {
+        const assigned = assignments[img.name];
+        const fileKey = parseFileKey(img.name, config);
+        const index = assigned !== undefined
+            ? promptData.findIndex(entry => entry.outputAi === assigned)
+            : fileKey ? firstByKey.get(shotKeyId(fileKey)) ?? -1 : -1;
+        const prompt = img.prompt.trim();
+
+        if (index >= 0) {
+            const keyText = entryKeyText(promptData[index].outputAi, config);
+            entries[index] = { outputAi: keyText ? `${prompt} || ${keyText}` : prompt };
+            updated++;
+        } else if (fileKey) {
+            entries.push({ outputAi: `${prompt} || Chap ${fileKey.chapter}_${fileKey.scene}` });
+            appended++;
+        }
+    });
+    return { entries, updated, appended };
+};
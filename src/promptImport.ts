@@ -0,0 +1,299 @@
+import { AudioCue, BackgroundEntry, ExtractionResult, PromptEntry } from './types';
+import { MatchingConfig, parseShotKey } from './filenameMatching';
+
+// --- Prompt Import ---
+// Validates prompt files before they replace the session's prompt database.
+// Accepts a PromptEntry[] JSON, a full ExtractionResult JSON, or a CSV/TSV
+// sheet. Every issue carries the 1-based line it was found on.
+
+export type ImportFormat = 'json' | 'extraction' | 'csv' | 'tsv';
+
+export interface ImportIssue {
+    severity: 'error' | 'warning';
+    line: number | null;
+    field: string; // e.g. "[3].outputAi", "backgrounds[0].timeOfDay", "column key"
+    message: string;
+}
+
+export interface ImportPreview {
+    fileName: string;
+    format: ImportFormat;
+    result: ExtractionResult; // backgrounds/audio stay empty unless the file had them
+    issues: ImportIssue[];
+}
+
+const TIMES_OF_DAY = ['morning', 'day', 'evening', 'night', 'unspecified'];
+const AUDIO_KINDS = ['bgm', 'sfx', 'voice'];
+
+// Line of every value in an already-valid JSON text, keyed by path ("[2].outputAi")
+const jsonLineMap = (text: string): Map<string, number> => {
+    const lines = new Map<string, number>();
+    let i = 0;
+    let line = 1;
+    const skipWhitespace = () => {
+        while (i < text.length && /\s/.test(text[i])) {
+            if (text[i] === '\n') line++;
+            i++;
+        }
+    };
+    const readString = () => {
+        let out = '';
+        for (i++; i < text.length && text[i] !== '"'; i++) {
+            if (text[i] === '\\') out += text[++i];
+            else out += text[i];
+        }
+        i++;
+        return out;
+    };
+    const readValue = (path: string) => {
+        skipWhitespace();
+        lines.set(path, line);
+        const open = text[i];
+        if (open === '{' || open === '[') {
+            i++;
+            for (let n = 0; ; n++) {
+                skipWhitespace();
+                if (text[i] === '}' || text[i] === ']') break;
+                if (open === '{') {
+                    const key = readString();
+                    skipWhitespace();
+                    i++; // ':'
+                    readValue(path ? `${path}.${key}` : key);
+                } else {
+                    readValue(`${path}[${n}]`);
+                }
+                skipWhitespace();
+                if (text[i] === ',') i++;
+            }
+            i++;
+        } else if (open === '"') {
+            readString();
+        } else {
+            while (i < text.length && !/[\s,\]}]/.test(text[i])) i++;
+        }
+    };
+    readValue('');
+    return lines;
+};
+
+// V8 reports either "at position N" or "(line L column C)"
+const syntaxErrorLine = (text: string, err: unknown): number | null => {
+    const message = err instanceof Error ? err.message : '';
+    const byLine = message.match(/line (\d+)/);
+    if (byLine) return parseInt(byLine[1], 10);
+    const byPosition = message.match(/position (\d+)/);
+    return byPosition ? text.slice(0, parseInt(byPosition[1], 10)).split('\n').length : null;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validatePrompts = (
+    value: unknown,
+    path: string,
+    lineOf: (path: string) => number | null,
+    config: MatchingConfig,
+    issues: ImportIssue[]
+): PromptEntry[] => {
+    if (!Array.isArray(value)) {
+        issues.push({ severity: 'error', line: lineOf(path), field: path || '(root)', message: 'Expected an array of { "outputAi": "..." } entries.' });
+        return [];
+    }
+    const entries: PromptEntry[] = [];
+    value.forEach((item, n) => {
+        const at = `${path}[${n}]`;
+        if (!isObject(item)) {
+            issues.push({ severity: 'error', line: lineOf(at), field: at, message: 'Entry must be an object.' });
+            return;
+        }
+        if (typeof item.outputAi !== 'string') {
+            issues.push({ severity: 'error', line: lineOf(`${at}.outputAi`) ?? lineOf(at), field: `${at}.outputAi`, message: item.outputAi === undefined ? 'Missing required field.' : `Expected a string, got ${typeof item.outputAi}.` });
+            return;
+        }
+        if (!item.outputAi.trim()) {
+            issues.push({ severity: 'error', line: lineOf(`${at}.outputAi`), field: `${at}.outputAi`, message: 'Prompt is empty.' });
+            return;
+        }
+        if (!parseShotKey(item.outputAi, config)) {
+            issues.push({ severity: 'warning', line: lineOf(`${at}.outputAi`), field: `${at}.outputAi`, message: 'No chapter/shot key recognised; this prompt can only be assigned by hand.' });
+        }
+        entries.push({ outputAi: item.outputAi });
+    });
+    return entries;
+};
+
+const requireFields = (
+    item: Record<string, unknown>,
+    at: string,
+    fields: Record<string, 'string' | 'number' | string[]>,
+    lineOf: (path: string) => number | null,
+    issues: ImportIssue[]
+): boolean => {
+    let ok = true;
+    Object.entries(fields).forEach(([field, type]) => {
+        const value = item[field];
+        const valid = Array.isArray(type) ? type.includes(value as string) : typeof value === type;
+        if (!valid) {
+            ok = false;
+            const expected = Array.isArray(type) ? `one of ${type.join(', ')}` : `a ${type}`;
+            issues.push({ severity: 'error', line: lineOf(`${at}.${field}`) ?? lineOf(at), field: `${at}.${field}`, message: value === undefined ? 'Missing required field.' : `Expected ${expected}.` });
+        }
+    });
+    return ok;
+};
+
+const validateList = <T>(
+    value: unknown,
+    path: string,
+    fields: Record<string, 'string' | 'number' | string[]>,
+    lineOf: (path: string) => number | null,
+    issues: ImportIssue[]
+): T[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        issues.push({ severity: 'error', line: lineOf(path), field: path, message: 'Expected an array.' });
+        return [];
+    }
+    return value.filter((item, n) => {
+        if (isObject(item)) return requireFields(item, `${path}[${n}]`, fields, lineOf, issues);
+        issues.push({ severity: 'error', line: lineOf(`${path}[${n}]`), field: `${path}[${n}]`, message: 'Entry must be an object.' });
+        return false;
+    }) as T[];
+};
+
+const parseJson = (fileName: string, text: string, config: MatchingConfig): ImportPreview => {
+    const issues: ImportIssue[] = [];
+    const empty: ExtractionResult = { images: [], backgrounds: [], audio: [] };
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (err) {
+        issues.push({ severity: 'error', line: syntaxErrorLine(text, err), field: '(syntax)', message: err instanceof Error ? err.message : 'Invalid JSON.' });
+        return { fileName, format: 'json', result: empty, issues };
+    }
+    const lines = jsonLineMap(text);
+    const lineOf = (path: string) => lines.get(path) ?? null;
+
+    if (Array.isArray(data)) {
+        return { fileName, format: 'json', result: { ...empty, images: validatePrompts(data, '', lineOf, config, issues) }, issues };
+    }
+    if (isObject(data) && 'images' in data) {
+        const result: ExtractionResult = {
+            images: validatePrompts(data.images, 'images', lineOf, config, issues),
+            backgrounds: validateList<BackgroundEntry>(data.backgrounds, 'backgrounds', {
+                id: 'string', locationId: 'string', timeOfDay: TIMES_OF_DAY, prompt: 'string', chapter: 'number', scene: 'number'
+            }, lineOf, issues),
+            audio: validateList<AudioCue>(data.audio, 'audio', {
+                id: 'string', kind: AUDIO_KINDS, cue: 'string', chapter: 'number', scene: 'number'
+            }, lineOf, issues)
+        };
+        return { fileName, format: 'extraction', result, issues };
+    }
+    issues.push({ severity: 'error', line: 1, field: '(root)', message: 'Expected a prompt array or an extraction result with an "images" array.' });
+    return { fileName, format: 'json', result: empty, issues };
+};
+
+// RFC 4180-style rows; quoted cells may contain the delimiter, quotes ("") and newlines
+const parseDelimited = (text: string, delimiter: string): { cells: string[], line: number }[] => {
+    const rows: { cells: string[], line: number }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                if (c === '\n') line++;
+                cell += c;
+            }
+        } else if (c === '"' && cell === '') {
+            quoted = true;
+        } else if (c === delimiter) {
+            cells.push(cell);
+            cell = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            cells.push(cell);
+            if (cells.some(v => v.trim())) rows.push({ cells, line: rowLine });
+            cells = [];
+            cell = '';
+            rowLine = ++line;
+        } else {
+            cell += c;
+        }
+    }
+    cells.push(cell);
+    if (cells.some(v => v.trim())) rows.push({ cells, line: rowLine });
+    return rows;
+};
+
+const HEADER_ALIASES: Record<string, string> = {
+    outputai: 'outputAi', output_ai: 'outputAi',
+    prompt: 'prompt', text: 'prompt',
+    key: 'key', file: 'key', filename: 'key', shot_key: 'key',
+    chapter: 'chapter', chap: 'chapter', bab: 'chapter',
+    scene: 'scene', shot: 'scene'
+};
+
+const parseSheet = (fileName: string, text: string, format: 'csv' | 'tsv', config: MatchingConfig): ImportPreview => {
+    const issues: ImportIssue[] = [];
+    const rows = parseDelimited(text.replace(/^\uFEFF/, ''), format === 'tsv' ? '\t' : ',');
+    const images: PromptEntry[] = [];
+    const result: ExtractionResult = { images, backgrounds: [], audio: [] };
+    if (rows.length === 0) {
+        issues.push({ severity: 'error', line: null, field: '(file)', message: 'The sheet is empty.' });
+        return { fileName, format, result, issues };
+    }
+
+    // Without a recognised header: one column is outputAi, two are prompt + key
+    const header = rows[0].cells.map(h => HEADER_ALIASES[h.trim().toLowerCase()]);
+    const hasHeader = header.some(Boolean);
+    const columns = hasHeader ? header : rows[0].cells.length === 1 ? ['outputAi'] : ['prompt', 'key'];
+    const col = (name: string) => columns.indexOf(name);
+    if (hasHeader && col('outputAi') < 0 && col('prompt') < 0) {
+        issues.push({ severity: 'error', line: rows[0].line, field: 'header', message: 'Needs an "outputAi" or a "prompt" column.' });
+        return { fileName, format, result, issues };
+    }
+
+    rows.slice(hasHeader ? 1 : 0).forEach(({ cells, line }) => {
+        const get = (name: string) => (col(name) >= 0 ? cells[col(name)] ?? '' : '').trim();
+        let outputAi = get('outputAi');
+        if (!outputAi) {
+            const prompt = get('prompt');
+            if (!prompt) {
+                issues.push({ severity: 'error', line, field: `column ${col('outputAi') >= 0 ? 'outputAi' : 'prompt'}`, message: 'Prompt is empty.' });
+                return;
+            }
+            const chapter = get('chapter');
+            const scene = get('scene');
+            if ((chapter || scene) && !/^\d+$/.test(chapter + scene)) {
+                issues.push({ severity: 'error', line, field: chapter && /^\d+$/.test(chapter) ? 'column scene' : 'column chapter', message: 'Expected a whole number.' });
+                return;
+            }
+            const key = get('key') || (chapter && scene ? `Chap ${chapter}_${scene}` : '');
+            outputAi = key ? `${prompt} || ${key}` : prompt;
+        }
+        if (!parseShotKey(outputAi, config)) {
+            issues.push({ severity: 'warning', line, field: col('key') >= 0 ? 'column key' : 'column outputAi', message: 'No chapter/shot key recognised; this prompt can only be assigned by hand.' });
+        }
+        images.push({ outputAi });
+    });
+    return { fileName, format, result, issues };
+};
+
+export const parsePromptFile = (fileName: string, text: string, config: MatchingConfig): ImportPreview => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (ext === 'csv' || ext === 'tsv') return parseSheet(fileName, text, ext, config);
+    // Pasted spreadsheet exports sometimes arrive as .txt
+    if (ext === 'txt' && !/^\s*[[{]/.test(text)) return parseSheet(fileName, text, text.includes('\t') ? 'tsv' : 'csv', config);
+    return parseJson(fileName, text, config);
+};
+
+export const hasErrors = (preview: ImportPreview) => preview.issues.some(i => i.severity === 'error');
@@ -0,0 +1,99 @@
+import { QCEvent } from './types';
+
+// --- QC Analytics ---
+// Dashboard trends, all derived from the QC event log. Rates use each image's
+// latest decision so an image rejected twice and then approved counts once, as
+// approved; daily volumes count every decision. Undone actions are taken out of
+// the log, so undo/redo cycles add nothing.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counted in place of a reason for rejections saved without one
+export const NO_REASON = 'none';
+
+export interface DayCount {
+    day: string; // YYYY-MM-DD, local time
+    approved: number;
+    rejected: number;
+}
+
+export interface FacetRate {
+    key: string;
+    approved: number;
+    rejected: number;
+    rate: number; // approved / (approved + rejected)
+}
+
+export type AnalyticsFacet = 'character' | 'outfit' | 'setting' | 'chapter';
+
+const dayKey = (at: number) => {
+    const d = new Date(at);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// The last `days` days up to today, including days without reviews
+export const reviewsPerDay = (events: QCEvent[], days = 14, now = Date.now()): DayCount[] => {
+    const counts = new Map<string, DayCount>();
+    for (let i = days - 1; i >= 0; i--) {
+        const day = dayKey(now - i * DAY_MS);
+        counts.set(day, { day, approved: 0, rejected: 0 });
+    }
+    events.forEach(e => {
+        if (e.kind !== 'approved' && e.kind !== 'rejected') return;
+        const bucket = counts.get(dayKey(e.at));
+        if (bucket) bucket[e.kind]++;
+    });
+    return Array.from(counts.values());
+};
+
+// Latest approve/reject per image; images reset to pending afterwards drop out
+export const latestDecisions = (events: QCEvent[]): QCEvent[] => {
+    const latest = new Map<number, QCEvent>();
+    events.forEach(e => {
+        if (e.kind === 'regenerated') return;
+        const prev = latest.get(e.imageId);
+        if (!prev || e.at >= prev.at) latest.set(e.imageId, e);
+    });
+    return Array.from(latest.values()).filter(e => e.kind !== 'pending');
+};
+
+const facetKeys = (e: QCEvent, facet: AnalyticsFacet): string[] => {
+    switch (facet) {
+        case 'character': return e.characters;
+        case 'outfit': return Array.from(new Set(e.outfits));
+        case 'setting': return [e.setting];
+        case 'chapter': return [e.chapter];
+    }
+};
+
+// Worst approval rate first, so the struggling parts of the pipeline lead the chart
+export const approvalRates = (decisions: QCEvent[], facet: AnalyticsFacet): FacetRate[] => {
+    const rates = new Map<string, FacetRate>();
+    decisions.forEach(e => {
+        facetKeys(e, facet).forEach(key => {
+            if (!rates.has(key)) rates.set(key, { key, approved: 0, rejected: 0, rate: 0 });
+            const r = rates.get(key)!;
+            if (e.kind === 'approved') r.approved++;
+            else r.rejected++;
+        });
+    });
+    return Array.from(rates.values())
+        .map(r => ({ ...r, rate: r.approved / (r.approved + r.rejected) }))
+        .sort((a, b) => a.rate - b.rate || (b.approved + b.rejected) - (a.approved + a.rejected));
+};
+
+export const averageRegenerations = (decisions: QCEvent[]): { average: number, approved: number } => {
+    const approved = decisions.filter(e => e.kind === 'approved');
+    const total = approved.reduce((sum, e) => sum + e.regenerations, 0);
+    return { average: approved.length ? total / approved.length : 0, approved: approved.length };
+};
+
+// Across every rejection, not just the latest, since each one cost a regeneration
+export const rejectionReasonCounts = (events: QCEvent[]): { id: string, count: number }[] => {
+    const counts = new Map<string, number>();
+    events.forEach(e => {
+        if (e.kind !== 'rejected') return;
+        (e.reasons?.length ? e.reasons : [NO_REASON]).forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+    });
+    return Array.from(counts, ([id, count]) => ({ id, count })).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,63 @@
+import { Character, QCImage } from './types';
+import { naturalCompare } from './queueGrouping';
+
+// --- Queue Filter ---
+// Chips combine as OR within a facet and AND across facets, so
+// "rejected" + "Alina" + "hospital_vip" finds rejected VIP-room shots of Alina.
+
+export interface QueueFilter {
+    statuses: QCImage['status'][];
+    characters: string[];
+    outfits: string[];
+    settings: string[];
+    chapters: string[]; // QueueGroup ids
+    search: string;
+}
+
+export type QueueSort = 'chapter' | 'name' | 'status' | 'recent' | 'versions' | 'upload';
+
+// What the detectors found for one image, computed once per render
+export interface QueueFacts {
+    characters: Character[]; // Outfit overrides applied
+    setting: string;
+    chapterId: string;
+}
+
+export const EMPTY_FILTER: QueueFilter = { statuses: [], characters: [], outfits: [], settings: [], chapters: [], search: '' };
+
+export const SORT_OPTIONS: { id: QueueSort, label: string }[] = [
+    { id: 'chapter', label: 'Chapter & shot' },
+    { id: 'name', label: 'File name' },
+    { id: 'status', label: 'Status (pending first)' },
+    { id: 'recent', label: 'Recently changed' },
+    { id: 'versions', label: 'Most regenerated' },
+    { id: 'upload', label: 'Upload order' }
+];
+
+export const isFilterActive = (filter: QueueFilter) =>
+    filter.search.trim() !== '' || filter.statuses.length + filter.characters.length + filter.outfits.length + filter.settings.length + filter.chapters.length > 0;
+
+const anyOf = <T>(selected: T[], values: T[]) => selected.length === 0 || values.some(v => selected.includes(v));
+
+export const matchesFilter = (img: QCImage, facts: QueueFacts, filter: QueueFilter): boolean => {
+    if (!anyOf(filter.statuses, [img.status])) return false;
+    if (!anyOf(filter.characters, facts.characters.map(c => c.name))) return false;
+    if (!anyOf(filter.outfits, facts.characters.map(c => c.outfit))) return false;
+    if (!anyOf(filter.settings, [facts.setting])) return false;
+    if (!anyOf(filter.chapters, [facts.chapterId])) return false;
+    const haystack = `${img.name}\n${img.prompt}`.toLowerCase();
+    return filter.search.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+};
+
+const STATUS_RANK: Record<QCImage['status'], number> = { pending: 0, rejected: 1, approved: 2 };
+
+const lastChange = (img: QCImage) => img.history[img.history.length - 1]?.createdAt ?? 0;
+
+// Comparators for every order except 'chapter', which groupByChapter handles
+export const SORT_COMPARATORS: Record<Exclude<QueueSort, 'chapter'>, (a: QCImage, b: QCImage) => number> = {
+    name: (a, b) => naturalCompare(a.name, b.name),
+    status: (a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status] || naturalCompare(a.name, b.name),
+    recent: (a, b) => lastChange(b) - lastChange(a),
+    versions: (a, b) => b.history.length - a.history.length || naturalCompare(a.name, b.name),
+    upload: () => 0
+};
@@ -0,0 +1,60 @@
+import { QCImage } from './types';
+import { MatchingConfig, parseFileKey } from './filenameMatching';
+
+// --- Queue Grouping ---
+// Orders the QC queue by chapter, then shot number, instead of upload order.
+// Files no matching scheme recognises collect in a trailing "Unsorted" group.
+
+export interface QueueGroup {
+    id: string; // "3", "unsorted", or "results" for a flat sorted list
+    label: string;
+    chapter: number | null;
+    items: { img: QCImage, index: number }[]; // index into the images array
+    approved: number;
+    rejected: number;
+    pending: number;
+}
+
+// "chap_2_10" after "chap_2_9"
+export const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export const chapterIdOf = (img: QCImage, config: MatchingConfig) => {
+    const key = parseFileKey(img.name, config);
+    return key ? String(key.chapter) : 'unsorted';
+};
+
+// `include` drops images (e.g. filtered out) while keeping their indices intact
+export const groupByChapter = (images: QCImage[], config: MatchingConfig, include: (img: QCImage) => boolean = () => true): QueueGroup[] => {
+    const groups = new Map<string, QueueGroup>();
+    const scenes = new Map<number, number>();
+    images.forEach((img, index) => {
+        if (!include(img)) return;
+        const key = parseFileKey(img.name, config);
+        const id = key ? String(key.chapter) : 'unsorted';
+        if (key) scenes.set(img.id, key.scene);
+        if (!groups.has(id)) groups.set(id, { id, label: key ? `Chapter ${key.chapter}` : 'Unsorted', chapter: key?.chapter ?? null, items: [], approved: 0, rejected: 0, pending: 0 });
+        const group = groups.get(id)!;
+        group.items.push({ img, index });
+        group[img.status]++;
+    });
+
+    const sceneOf = (img: QCImage) => scenes.get(img.id) ?? Infinity;
+    const ordered = Array.from(groups.values()).sort((a, b) => (a.chapter ?? Infinity) - (b.chapter ?? Infinity));
+    ordered.forEach(group => group.items.sort((a, b) => sceneOf(a.img) - sceneOf(b.img) || naturalCompare(a.img.name, b.img.name)));
+    return ordered;
+};
+
+// One ungrouped list in the given order
+export const flatGroup = (images: QCImage[], compare: (a: QCImage, b: QCImage) => number, include: (img: QCImage) => boolean = () => true): QueueGroup[] => {
+    const group: QueueGroup = { id: 'results', label: 'Results', chapter: null, items: [], approved: 0, rejected: 0, pending: 0 };
+    images.forEach((img, index) => {
+        if (!include(img)) return;
+        group.items.push({ img, index });
+        group[img.status]++;
+    });
+    group.items.sort((a, b) => compare(a.img, b.img) || a.index - b.index);
+    return group.items.length > 0 ? [group] : [];
+};
+
+// Image indices in queue order
+export const queueOrder = (groups: QueueGroup[]): number[] => groups.flatMap(g => g.items.map(item => item.index));
@@ -0,0 +1,63 @@
+import { PromptEntry, QCImage } from './types';
+import { MatchingConfig, parseFileKey, shotKeyId, splitPromptEntry } from './filenameMatching';
+
+// --- Match Reconciliation ---
+// Cross-checks loaded images against prompt entries. Manual assignments map an
+// image name to the outputAi text of the entry the reviewer picked, so they
+// survive re-importing the same JSON in a different order.
+
+export type PromptAssignments = Record<string, string>;
+
+export interface ReconciledEntry {
+    index: number; // Position in promptData
+    entry: PromptEntry;
+    prompt: string;
+    key: string | null; // "1_3", null when no scheme recognises it
+}
+
+export interface ReconciliationReport {
+    matched: number;
+    unmatchedImages: QCImage[];
+    orphanEntries: ReconciledEntry[]; // No image resolves to them
+    duplicates: { key: string, entries: ReconciledEntry[] }[];
+}
+
+export const reconcile = (
+    images: QCImage[],
+    promptData: PromptEntry[],
+    config: MatchingConfig,
+    assignments: PromptAssignments
+): ReconciliationReport => {
+    const entries: ReconciledEntry[] = promptData.map((entry, index) => {
+        const { prompt, key } = splitPromptEntry(entry.outputAi || '', config);
+        return { index, entry, prompt, key: key ? shotKeyId(key) : null };
+    });
+    const byKey = new Map<string, ReconciledEntry[]>();
+    entries.forEach(e => {
+        if (e.key) byKey.set(e.key, [...(byKey.get(e.key) || []), e]);
+    });
+
+    const used = new Set<ReconciledEntry>();
+    const unmatchedImages: QCImage[] = [];
+    images.forEach(img => {
+        const assigned = assignments[img.name];
+        if (assigned !== undefined) {
+            // Still counts as matched if the entry was later removed from the JSON
+            const manual = entries.find(e => e.entry.outputAi === assigned);
+            if (manual) used.add(manual);
+            return;
+        }
+        const key = parseFileKey(img.name, config);
+        // The first entry of a duplicated key is the one matching actually uses
+        const auto = key ? byKey.get(shotKeyId(key))?.[0] : undefined;
+        if (auto) used.add(auto);
+        else unmatchedImages.push(img);
+    });
+
+    return {
+        matched: images.length - unmatchedImages.length,
+        unmatchedImages,
+        orphanEntries: entries.filter(e => !used.has(e)),
+        duplicates: Array.from(byKey, ([key, list]) => ({ key, entries: list })).filter(d => d.entries.length > 1)
+    };
+};
@@ -0,0 +1,136 @@
+import { Character } from './types';
+
+// --- Regeneration API Client ---
+// Talks to the Python generation server at `${backendUrl}/api/regenerate`.
+// Run `npm run mock:backend` for an offline stand-in.
+
+export interface RegenerateRequest {
+    name: string; // Source file name, e.g. "chap_1_3.png"
+    prompt: string;
+    characters: Character[]; // Outfit overrides already applied
+    setting: string;
+    rejection?: { reasons: string[], note: string }; // Reason labels from the last QC rejection
+}
+
+export interface RegenerateResult {
+    url: string; // Object URL for base64 payloads, absolute URL otherwise
+    seed?: number;
+    model?: string;
+}
+
+export interface RegenerateOptions {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+export class BackendError extends Error {
+    code: string;
+    status?: number;
+    details?: string;
+
+    constructor(code: string, message: string, status?: number, details?: string) {
+        super(message);
+        this.name = 'BackendError';
+        this.code = code;
+        this.status = status;
+        this.details = details;
+    }
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+// Server JSON is untrusted; read it through these instead of `any`
+export const asRecord = (value: unknown): Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+export const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+export const joinBackendUrl = (backendUrl: string, path: string): string =>
+    `${backendUrl.replace(/\/+$/, '')}${path}`;
+
+const base64ToObjectUrl = (data: string, fallbackMime: string): string => {
+    // Accept both raw base64 and full data URLs
+    const match = data.match(/^data:([^;]+);base64,(.*)$/s);
+    const mime = match ? match[1] : fallbackMime;
+    const binary = atob((match ? match[2] : data).replace(/\s/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return URL.createObjectURL(new Blob([bytes], { type: mime }));
+};
+
+// Server errors come either as { error: "message" } or
+// { error: { code, message, details } }; anything else falls back to the HTTP status.
+const readBackendError = async (res: Response): Promise<BackendError> => {
+    let body: unknown = null;
+    try {
+        body = await res.json();
+    } catch {
+        // Non-JSON error page
+    }
+    const err = asRecord(body).error ?? body;
+    const detail = asRecord(err);
+    const message = asString(detail.message);
+    if (message) {
+        return new BackendError(asString(detail.code) || `http_${res.status}`, message, res.status, asString(detail.details));
+    }
+    if (typeof err === 'string') return new BackendError(`http_${res.status}`, err, res.status);
+    return new BackendError(`http_${res.status}`, `Backend responded with ${res.status} ${res.statusText}`, res.status);
+};
+
+export const regenerateImage = async (
+    backendUrl: string,
+    request: RegenerateRequest,
+    options: RegenerateOptions = {}
+): Promise<RegenerateResult> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const onExternalAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onExternalAbort);
+
+    try {
+        let res: Response;
+        try {
+            res = await fetch(joinBackendUrl(backendUrl, '/api/regenerate'), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request),
+                signal: controller.signal
+            });
+        } catch (e) {
+            if (timedOut) throw new BackendError('timeout', `No response from backend after ${Math.round((options.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 1000)}s.`);
+            if (options.signal?.aborted) throw new BackendError('cancelled', 'Regeneration cancelled.');
+            throw new BackendError('network', `Could not reach ${backendUrl}. Is the generation server running?`);
+        }
+
+        if (!res.ok) throw await readBackendError(res);
+
+        const contentType = res.headers.get('content-type') || '';
+        if (contentType.startsWith('image/')) {
+            return { url: URL.createObjectURL(await res.blob()) };
+        }
+
+        const data = asRecord(await res.json());
+        const meta = { seed: typeof data.seed === 'number' ? data.seed : undefined, model: asString(data.model) };
+        const base64 = asString(data.image_base64) ?? asString(data.new_image_base64);
+        if (base64) {
+            return { url: base64ToObjectUrl(base64, asString(data.mime_type) || 'image/png'), ...meta };
+        }
+        const imageUrl = asString(data.image_url) ?? asString(data.url);
+        if (imageUrl) {
+            return { url: new URL(imageUrl, joinBackendUrl(backendUrl, '/')).toString(), ...meta };
+        }
+        throw new BackendError('bad_response', 'Backend response did not contain an image.');
+    } catch (e) {
+        if (e instanceof BackendError) throw e;
+        if (timedOut) throw new BackendError('timeout', 'Backend timed out while sending the image.');
+        if (options.signal?.aborted) throw new BackendError('cancelled', 'Regeneration cancelled.');
+        throw new BackendError('bad_response', e instanceof Error ? e.message : 'Unreadable backend response.');
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onExternalAbort);
+    }
+};
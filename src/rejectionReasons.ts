@@ -0,0 +1,41 @@
+import { Rejection, RejectionReason } from './types';
+
+// --- Rejection Reasons ---
+// The pick list shown when rejecting a CG. Stored in localStorage per
+// browser; images keep reason ids, so renaming a reason relabels old rejections.
+
+const STORAGE_KEY = 'rejection-reasons';
+
+export const DEFAULT_REJECTION_REASONS: RejectionReason[] = [
+    { id: 'wrong_outfit', label: 'Wrong outfit' },
+    { id: 'wrong_character', label: 'Wrong character' },
+    { id: 'anatomy', label: 'Anatomy' },
+    { id: 'background_mismatch', label: 'Background mismatch' },
+    { id: 'style_drift', label: 'Style drift' }
+];
+
+export const loadRejectionReasons = (): RejectionReason[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return Array.isArray(stored) ? stored : DEFAULT_REJECTION_REASONS;
+    } catch {
+        return DEFAULT_REJECTION_REASONS;
+    }
+};
+
+export const saveRejectionReasons = (reasons: RejectionReason[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(reasons));
+
+// "Lighting off" -> "lighting_off", suffixed until unique
+export const reasonIdFor = (label: string, existing: RejectionReason[]): string => {
+    const base = label.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '') || 'reason';
+    let id = base;
+    for (let n = 2; existing.some(r => r.id === id); n++) id = `${base}_${n}`;
+    return id;
+};
+
+// Reasons removed from the list since still show their id
+export const reasonLabels = (rejection: Rejection, reasons: RejectionReason[]): string[] =>
+    rejection.reasons.map(id => reasons.find(r => r.id === id)?.label ?? id);
+
+export const describeRejection = (rejection: Rejection, reasons: RejectionReason[]): string =>
+    [...reasonLabels(rejection, reasons), rejection.note.trim()].filter(Boolean).join(' · ');
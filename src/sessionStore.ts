@@ -0,0 +1,258 @@
+import { ImageVersion, PromptEntry, QCAudioCue, QCBackground, QCEvent, QCImage, RetryItem } from './types';
+
+// --- QC Session Persistence ---
+// Everything the reviewer touches is mirrored into IndexedDB so a refresh
+// doesn't lose the day's decisions. Object URLs can't survive a reload, so
+// blob: URLs are copied into the `blobs` store and saved as "idb:<key>" refs.
+
+export interface SessionSnapshot {
+    images: QCImage[];
+    promptData: PromptEntry[];
+    outfitOverride: Record<string, string>;
+    backgrounds: QCBackground[];
+    audioCues: QCAudioCue[];
+    retryQueue: RetryItem[];
+    promptAssignments: Record<string, string>; // Image name -> outputAi picked by hand
+    continuityAcks: string[]; // Continuity warning ids marked intentional
+    qcEvents: QCEvent[]; // Timestamped decisions behind the dashboard analytics
+}
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+const DB_NAME = 'vn-erp';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const BLOB_STORE = 'blobs';
+const SESSION_KEY = 'current';
+const BLOB_REF_PREFIX = 'idb:';
+
+// blob: URL -> blob key, so autosave doesn't copy the same image twice
+const storedBlobKeys = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Autosaves are chained so two writes never race on the blob cleanup
+let saveChain: Promise<void> = Promise.resolve();
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const db = req.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+                if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => {
+                dbPromise = null;
+                reject(req.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+const txDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+const newBlobKey = (): string =>
+    `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+// Blobs copied by one save; their keys only reach storedBlobKeys once the transaction commits
+interface PendingBlobs {
+    blobs: Map<string, Blob>; // key -> blob
+    keys: Map<string, string>; // blob: URL -> key
+}
+
+const persistUrl = async (url: string | null | undefined, pending: PendingBlobs, referenced: Set<string>): Promise<string | null> => {
+    if (!url) return null;
+    if (!url.startsWith('blob:')) return url;
+
+    let key = storedBlobKeys.get(url) ?? pending.keys.get(url);
+    if (!key) {
+        try {
+            const blob = await (await fetch(url)).blob();
+            key = newBlobKey();
+            pending.blobs.set(key, blob);
+            pending.keys.set(url, key);
+        } catch {
+            return null; // URL was revoked; nothing left to save
+        }
+    }
+    referenced.add(key);
+    return BLOB_REF_PREFIX + key;
+};
+
+const restoreUrl = (ref: string | null | undefined, blobs: Map<string, Blob>): string | null => {
+    if (!ref) return null;
+    if (!ref.startsWith(BLOB_REF_PREFIX)) return ref;
+    const key = ref.slice(BLOB_REF_PREFIX.length);
+    const blob = blobs.get(key);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    storedBlobKeys.set(url, key);
+    return url;
+};
+
+// File handles can't be cloned into IndexedDB meaningfully; the blob copy replaces them.
+const stripFile = <T extends { file?: File }>(item: T): Omit<T, 'file'> => {
+    const { file: _file, ...rest } = item;
+    return rest;
+};
+
+export const saveSession = (snapshot: SessionSnapshot): Promise<void> => {
+    saveChain = saveChain.catch(() => {}).then(() => writeSession(snapshot));
+    return saveChain;
+};
+
+const writeSession = async (snapshot: SessionSnapshot): Promise<void> => {
+    const pending: PendingBlobs = { blobs: new Map(), keys: new Map() };
+    const referenced = new Set<string>();
+
+    const images = await Promise.all(snapshot.images.map(async img => ({
+        ...stripFile(img),
+        url: await persistUrl(img.url, pending, referenced),
+        history: await Promise.all(img.history.map(async v => ({ ...v, url: await persistUrl(v.url, pending, referenced) })))
+    })));
+    const backgrounds = await Promise.all(snapshot.backgrounds.map(async bg => ({
+        ...stripFile(bg),
+        url: await persistUrl(bg.url, pending, referenced),
+        oldUrl: await persistUrl(bg.oldUrl, pending, referenced)
+    })));
+    const audioCues = await Promise.all(snapshot.audioCues.map(async cue => ({
+        ...stripFile(cue),
+        fileName: cue.file?.name,
+        url: await persistUrl(cue.url, pending, referenced)
+    })));
+
+    const db = await openDb();
+    const tx = db.transaction([SESSION_STORE, BLOB_STORE], 'readwrite');
+    const blobStore = tx.objectStore(BLOB_STORE);
+    pending.blobs.forEach((blob, key) => blobStore.put(blob, key));
+    tx.objectStore(SESSION_STORE).put({
+        images,
+        backgrounds,
+        audioCues,
+        promptData: snapshot.promptData,
+        outfitOverride: snapshot.outfitOverride,
+        retryQueue: snapshot.retryQueue,
+        promptAssignments: snapshot.promptAssignments,
+        continuityAcks: snapshot.continuityAcks,
+        qcEvents: snapshot.qcEvents,
+        savedAt: Date.now()
+    }, SESSION_KEY);
+
+    // Drop blobs nothing points at anymore (old regenerations, removed images)
+    const existingKeys = await promisify(blobStore.getAllKeys());
+    const dropped = new Set<string>();
+    existingKeys.forEach(key => {
+        if (referenced.has(String(key))) return;
+        blobStore.delete(key);
+        dropped.add(String(key));
+    });
+    await txDone(tx);
+
+    // Only now is the blob store known to match: an aborted save (e.g. quota) leaves the cache alone
+    pending.keys.forEach((key, url) => storedBlobKeys.set(url, key));
+    // Forget dropped keys too, so a URL that comes back (e.g. a redone regeneration) is written again
+    storedBlobKeys.forEach((key, url) => {
+        if (dropped.has(key)) storedBlobKeys.delete(url);
+    });
+};
+
+// Stored sessions may predate the current types, so they're read as unknown
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const recordsOf = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+const stringOf = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+// Sessions saved before version history existed only carry url/oldUrl
+const restoreImage = (img: Record<string, unknown>, blobs: Map<string, Blob>): QCImage => {
+    const { oldUrl, ...rest } = img;
+    const url = restoreUrl(stringOf(img.url), blobs) || '';
+    if (Array.isArray(img.history)) {
+        const history = recordsOf(img.history).map(v => ({ ...v, url: restoreUrl(stringOf(v.url), blobs) || '' }) as ImageVersion);
+        return { ...rest, url, history } as QCImage;
+    }
+    const legacy = [restoreUrl(stringOf(oldUrl), blobs), url].filter((u): u is string => !!u);
+    const history = legacy.map((u, i) => ({
+        id: `v_legacy_${img.id}_${i}`,
+        url: u,
+        prompt: img.prompt,
+        outfitOverride: {},
+        createdAt: Date.now(),
+        source: i === 0 ? 'upload' as const : 'regenerate' as const
+    }));
+    return { ...rest, url, history, activeVersionId: history[history.length - 1]?.id || '' } as QCImage;
+};
+
+export const loadSession = async (): Promise<SessionSnapshot | null> => {
+    const db = await openDb();
+    const tx = db.transaction([SESSION_STORE, BLOB_STORE], 'readonly');
+    const stored: unknown = await promisify(tx.objectStore(SESSION_STORE).get(SESSION_KEY));
+    if (!isRecord(stored)) return null;
+
+    const blobStore = tx.objectStore(BLOB_STORE);
+    const [keys, values] = await Promise.all([
+        promisify(blobStore.getAllKeys()),
+        promisify(blobStore.getAll())
+    ]);
+    const blobs = new Map<string, Blob>();
+    keys.forEach((key, i) => blobs.set(String(key), values[i]));
+
+    return {
+        images: recordsOf(stored.images).map(img => restoreImage(img, blobs)),
+        backgrounds: recordsOf(stored.backgrounds).map(bg => ({
+            ...bg,
+            url: restoreUrl(stringOf(bg.url), blobs),
+            oldUrl: restoreUrl(stringOf(bg.oldUrl), blobs)
+        }) as QCBackground),
+        audioCues: recordsOf(stored.audioCues).map(({ fileName, ...cue }) => {
+            const ref = stringOf(cue.url);
+            const blob = ref && blobs.get(ref.slice(BLOB_REF_PREFIX.length));
+            const name = stringOf(fileName);
+            return {
+                ...cue,
+                url: restoreUrl(ref, blobs),
+                file: blob && name ? new File([blob], name, { type: blob.type }) : undefined
+            } as QCAudioCue;
+        }),
+        promptData: recordsOf(stored.promptData) as unknown as PromptEntry[],
+        outfitOverride: isRecord(stored.outfitOverride) ? stored.outfitOverride as Record<string, string> : {},
+        retryQueue: recordsOf(stored.retryQueue) as unknown as RetryItem[],
+        promptAssignments: isRecord(stored.promptAssignments) ? stored.promptAssignments as Record<string, string> : {},
+        continuityAcks: Array.isArray(stored.continuityAcks) ? stored.continuityAcks.filter((id): id is string => typeof id === 'string') : [],
+        qcEvents: recordsOf(stored.qcEvents) as unknown as QCEvent[]
+    };
+};
+
+export const clearSession = async (): Promise<void> => {
+    await saveChain.catch(() => {});
+    const db = await openDb();
+    const tx = db.transaction([SESSION_STORE, BLOB_STORE], 'readwrite');
+    tx.objectStore(SESSION_STORE).clear();
+    tx.objectStore(BLOB_STORE).clear();
+    await txDone(tx);
+    storedBlobKeys.clear();
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
@@ -1,26 +1,155 @@
 export interface Character {
   name: string;
   outfit: string;
+  outfitTokens?: string; // Catalog prompt tokens for the outfit, if it has any
+}
+
+export interface CastMember {
+  id: string;
+  name: string; // Canonical name sent to the backend
+  aliases: string[]; // Nicknames, e.g. "mas raka"; raw patterns when matchMode is 'regex'
+  matchMode: 'word' | 'substring' | 'regex';
+  caseSensitive: boolean;
+  defaultOutfit: string; // Outfit id used when the prompt doesn't name one; 'default' for none
+  referenceImage?: string; // Data URL thumbnail
+}
+
+export interface Outfit {
+  id: string;
+  label: string;
+  icon: string; // Emoji shown in pickers
+  keywords: string[]; // Prompt words that signal this outfit, any language
+  promptTokens: string; // Sent to the backend when the outfit is forced
+  characters: string[]; // Cast member ids allowed to wear it; empty means everyone
+}
+
+export interface SceneLocation {
+  id: string; // e.g. "hospital_vip"; also the setting sent to the backend
+  label: string;
+  keywords: string[]; // English and Indonesian, e.g. "living room", "ruang tamu"
+  priority: number; // Breaks ties between equally matched locations
+  parentId?: string; // VIP room inside hospital_regular
+  backgroundId?: string; // Linked QCBackground
+}
+
+export interface ImageVersion {
+  id: string;
+  url: string;
+  prompt: string;
+  outfitOverride: Record<string, string>; // Overrides in effect when this version was generated
+  createdAt: number;
+  source: 'upload' | 'regenerate';
 }
 
 export interface QCImage {
   id: number;
   file?: File;
-  url: string;
-  oldUrl?: string | null;
+  url: string; // Always the active version's url
+  history: ImageVersion[]; // Oldest first
+  activeVersionId: string;
   name: string;
   prompt: string;
   originalPrompt: string;
   status: 'pending' | 'approved' | 'rejected';
-  setting?: string;
+  setting?: string; // Reviewer-corrected location id; detected from the prompt when unset
+  outfitOverride?: Record<string, string>; // Per-shot outfits; win over the session-wide overrides
+  rejection?: Rejection; // Most recent rejection; kept after regenerating so the fix can be checked
+}
+
+// One timestamped QC decision or regeneration; facets are captured at event time
+// so the analytics don't shift when prompts or overrides are edited later
+export interface QCEvent {
+  id: string;
+  at: number;
+  imageId: number;
+  kind: QCImage['status'] | 'regenerated';
+  characters: string[];
+  outfits: string[]; // Parallel to characters
+  setting: string;
+  chapter: string; // Queue group id: "3" or "unsorted"
+  regenerations: number; // Regenerated versions the image had at this point
+  reasons?: string[]; // RejectionReason ids, for 'rejected'
+}
+
+export interface RejectionReason {
+  id: string;
+  label: string;
+}
+
+export interface Rejection {
+  reasons: string[]; // RejectionReason ids
+  note: string;
+  at: number;
+}
+
+export type ImagePatch = Partial<Pick<QCImage, 'status' | 'prompt' | 'url' | 'activeVersionId' | 'setting' | 'outfitOverride' | 'rejection'>>;
+
+export interface UndoEntry {
+  id: string;
+  kind: 'status' | 'prompt' | 'outfit' | 'regenerate' | 'revert' | 'setting' | 'bulk';
+  label: string;
+  at: number;
+  imageId?: number;
+  before: ImagePatch;
+  after: ImagePatch;
+  outfitBefore?: Record<string, string>;
+  outfitAfter?: Record<string, string>;
+  patches?: { imageId: number, before: ImagePatch, after: ImagePatch }[]; // Bulk actions touch many images at once
+  version?: ImageVersion; // The version a regeneration pushed; undo removes only that one
+  events?: QCEvent[]; // Analytics events the action logged; undo removes them, redo restores them
+}
+
+export interface RetryItem {
+  imageId: number;
+  reason: 'rejected' | 'failed'; // Rejected in QC, or a regeneration call that errored
+  state: 'queued' | 'running' | 'succeeded' | 'failed';
+  attempts: number;
+  error?: string;
+  updatedAt: number;
 }
 
 export interface PromptEntry {
   outputAi: string; // Format: "Prompt text || Chap 1_1"
 }
 
+export type TimeOfDay = 'morning' | 'day' | 'evening' | 'night' | 'unspecified';
+
+export interface BackgroundEntry {
+  id: string;
+  locationId: string; // e.g. "hospital_vip"
+  timeOfDay: TimeOfDay;
+  prompt: string;
+  chapter: number;
+  scene: number; // Image shot the background was introduced before/after
+}
+
+export interface QCBackground extends BackgroundEntry {
+  file?: File;
+  url: string | null; // null until an image is uploaded or generated
+  oldUrl?: string | null;
+  name: string;
+  originalPrompt: string;
+  status: 'pending' | 'approved' | 'rejected';
+}
+
+export type AudioCueKind = 'bgm' | 'sfx' | 'voice';
+
+export interface AudioCue {
+  id: string;
+  kind: AudioCueKind;
+  cue: string; // Text inside the tag, e.g. "rain against the hospital window"
+  chapter: number;
+  scene: number; // Last image shot before the cue (0 = chapter opening)
+}
+
+export interface QCAudioCue extends AudioCue {
+  file?: File;
+  url: string | null; // null until an audio file is attached
+  status: 'pending' | 'approved' | 'rejected';
+}
+
 export interface ExtractionResult {
   images: PromptEntry[];
-  backgrounds: any[];
-  audio: any[];
-}
\ No newline at end of file
+  backgrounds: BackgroundEntry[];
+  audio: AudioCue[];
+}